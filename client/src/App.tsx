@@ -2,12 +2,14 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import Home from "@/pages/Home";
+import SharedRunPage from "@/pages/SharedRun";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/r/:id" component={SharedRunPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, X } from "lucide-react";
+import { useTokenizer } from "@/lib/hooks";
+import { SamplingParams, samplingParamsSchema } from "@shared/schema";
+
+interface AdvancedSettingsProps {
+  params: SamplingParams;
+  model: string;
+  disabled: boolean;
+  onChange: (params: SamplingParams) => void;
+}
+
+type NumericParam = "topP" | "frequencyPenalty" | "presencePenalty" | "seed";
+
+// Numeric fields, each left unset (the provider default) when empty
+const numericFields: { key: NumericParam; label: string; min?: number; max?: number; step: number; placeholder: string }[] = [
+  { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05, placeholder: "1" },
+  { key: "frequencyPenalty", label: "Frequency penalty", min: -2, max: 2, step: 0.1, placeholder: "0" },
+  { key: "presencePenalty", label: "Presence penalty", min: -2, max: 2, step: 0.1, placeholder: "0" },
+  { key: "seed", label: "Seed", step: 1, placeholder: "None" },
+];
+
+const formatLogitBias = (logitBias: SamplingParams["logitBias"]) =>
+  logitBias && Object.keys(logitBias).length > 0 ? JSON.stringify(logitBias) : "";
+
+export default function AdvancedSettings({ params, model, disabled, onChange }: AdvancedSettingsProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  // Decodes token IDs in the bias table back to text
+  const { tokenizer } = useTokenizer(model);
+  // Free-text fields are edited as text and parsed on the way out
+  const [stopText, setStopText] = useState<string>((params.stop ?? []).join("\n"));
+  const [logitBiasText, setLogitBiasText] = useState<string>(formatLogitBias(params.logitBias));
+  const [logitBiasError, setLogitBiasError] = useState<string | null>(null);
+
+  // Pick up parameters set from outside, e.g. when a run is reloaded
+  useEffect(() => {
+    setStopText((text) => {
+      const current = text.split("\n").filter(Boolean);
+      return JSON.stringify(current) === JSON.stringify(params.stop ?? []) ? text : (params.stop ?? []).join("\n");
+    });
+  }, [params.stop]);
+
+  useEffect(() => {
+    setLogitBiasText((text) => {
+      const parsed = (() => {
+        try {
+          return JSON.stringify(JSON.parse(text || "{}"));
+        } catch {
+          return null;
+        }
+      })();
+      return parsed === JSON.stringify(params.logitBias ?? {}) ? text : formatLogitBias(params.logitBias);
+    });
+  }, [params.logitBias]);
+
+  const setParam = <K extends keyof SamplingParams>(key: K, value: SamplingParams[K]) => {
+    const next = { ...params, [key]: value };
+    if (value === undefined) {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  const handleNumberChange = (field: (typeof numericFields)[number], raw: string) => {
+    if (raw.trim() === "") {
+      setParam(field.key, undefined);
+      return;
+    }
+    let value = Number(raw);
+    if (Number.isNaN(value)) return;
+    if (field.key === "seed") value = Math.trunc(value);
+    if (field.min !== undefined) value = Math.max(field.min, value);
+    if (field.max !== undefined) value = Math.min(field.max, value);
+    setParam(field.key, value);
+  };
+
+  const handleStopChange = (text: string) => {
+    setStopText(text);
+    const sequences = text.split("\n").filter(Boolean).slice(0, 4);
+    setParam("stop", sequences.length > 0 ? sequences : undefined);
+  };
+
+  const handleLogitBiasChange = (text: string) => {
+    setLogitBiasText(text);
+    if (!text.trim()) {
+      setLogitBiasError(null);
+      setParam("logitBias", undefined);
+      return;
+    }
+
+    try {
+      const result = samplingParamsSchema.shape.logitBias.safeParse(JSON.parse(text));
+      if (!result.success) {
+        setLogitBiasError(result.error.errors[0]?.message ?? "Invalid logit bias");
+        return;
+      }
+      setLogitBiasError(null);
+      setParam("logitBias", result.data);
+    } catch {
+      setLogitBiasError("Not valid JSON");
+    }
+  };
+
+  const setBias = (tokenId: string, bias: number | undefined) => {
+    const next = { ...params.logitBias };
+    if (bias === undefined) {
+      delete next[tokenId];
+    } else {
+      next[tokenId] = Math.min(100, Math.max(-100, bias));
+    }
+    setLogitBiasError(null);
+    setParam("logitBias", Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  // Open the section when a bias is added from the token view
+  const biasCount = Object.keys(params.logitBias ?? {}).length;
+  useEffect(() => {
+    if (biasCount > 0) setOpen(true);
+  }, [biasCount]);
+
+  const activeCount = Object.keys(params).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-6 border rounded-lg p-3 bg-muted/10">
+      <div className="flex items-center justify-between">
+        <CollapsibleTrigger asChild>
+          <button className="flex items-center gap-1 text-sm font-medium">
+            <ChevronDown className={`h-4 w-4 transition-transform ${open ? "" : "-rotate-90"}`} />
+            Advanced
+            {activeCount > 0 && (
+              <span className="text-xs font-normal text-muted-foreground">({activeCount} set)</span>
+            )}
+          </button>
+        </CollapsibleTrigger>
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => {
+              setLogitBiasError(null);
+              onChange({});
+            }}
+            disabled={disabled}
+          >
+            Reset
+          </Button>
+        )}
+      </div>
+      <CollapsibleContent className="mt-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {numericFields.map((field) => (
+            <div key={field.key}>
+              <Label htmlFor={field.key} className="text-xs text-muted-foreground">{field.label}</Label>
+              <Input
+                id={field.key}
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={params[field.key] ?? ""}
+                placeholder={field.placeholder}
+                onChange={(e) => handleNumberChange(field, e.target.value)}
+                disabled={disabled}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+        <div>
+          <Label htmlFor="stopSequences" className="text-xs text-muted-foreground">
+            Stop sequences (one per line, up to 4)
+          </Label>
+          <Textarea
+            id="stopSequences"
+            value={stopText}
+            onChange={(e) => handleStopChange(e.target.value)}
+            disabled={disabled}
+            className="min-h-[40px] text-xs font-mono resize-y"
+          />
+        </div>
+        {biasCount > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Token biases</div>
+            <table className="w-full text-xs">
+              <tbody>
+                {Object.entries(params.logitBias ?? {}).map(([tokenId, bias]) => (
+                  <tr key={tokenId} className="border-t">
+                    <td className="py-1 font-mono truncate max-w-[8rem]">
+                      {tokenizer ? JSON.stringify(tokenizer.decode([Number(tokenId)])) : "…"}
+                    </td>
+                    <td className="py-1 text-muted-foreground font-mono">#{tokenId}</td>
+                    <td className="py-1 w-20">
+                      <Input
+                        type="number"
+                        min={-100}
+                        max={100}
+                        value={bias}
+                        onChange={(e) => setBias(tokenId, Number(e.target.value) || 0)}
+                        disabled={disabled}
+                        className="h-6 text-xs px-2"
+                        aria-label={`Bias for token ${tokenId}`}
+                      />
+                    </td>
+                    <td className="py-1 w-8 text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setBias(tokenId, undefined)}
+                        disabled={disabled}
+                        title="Remove bias"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div>
+          <Label htmlFor="logitBias" className="text-xs text-muted-foreground">
+            Logit bias (JSON of token ID → bias, -100 to 100)
+          </Label>
+          <Textarea
+            id="logitBias"
+            value={logitBiasText}
+            onChange={(e) => handleLogitBiasChange(e.target.value)}
+            placeholder={'{"1734": -100}'}
+            disabled={disabled}
+            className="min-h-[40px] text-xs font-mono resize-y"
+          />
+          {logitBiasError && <p className="mt-1 text-xs text-destructive">{logitBiasError}</p>}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { login, register } from "@/lib/api";
+import { PublicUser } from "@shared/schema";
+
+interface AuthCardProps {
+  onAuthenticated: (user: PublicUser) => void;
+}
+
+export default function AuthCard({ onAuthenticated }: AuthCardProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [passkey, setPasskey] = useState<string>("");
+  const [isPending, setIsPending] = useState<boolean>(false);
+
+  // Handle login or registration
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+
+    try {
+      const user = mode === "login"
+        ? await login(username, password)
+        : await register(username, password, passkey || undefined);
+
+      setPassword("");
+      setPasskey("");
+      onAuthenticated(user);
+      toast({
+        title: "Success",
+        description: `Welcome to the LLM Token Explorer, ${user.username}!`,
+      });
+    } catch (error) {
+      toast({
+        title: mode === "login" ? "Login Failed" : "Registration Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md p-6">
+      <CardHeader>
+        <CardTitle className="text-center text-2xl">Access Required</CardTitle>
+        <CardDescription className="text-center">
+          Log in or create an account to use the LLM Token Explorer
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "login" | "register")}>
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="login">Log in</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                placeholder="Enter your username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <TabsContent value="register" className="mt-0 space-y-2">
+              <Label htmlFor="passkey">Passkey</Label>
+              <Input
+                id="passkey"
+                type="password"
+                placeholder="Class passkey, if your instructor set one"
+                value={passkey}
+                onChange={(e) => setPasskey(e.target.value)}
+              />
+            </TabsContent>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isPending || !username.trim() || !password}
+            >
+              {mode === "login" ? "Log in" : "Create account"}
+            </Button>
+          </form>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { ChatTurn, chatRoles } from "@shared/schema";
+import { TokenRun } from "./ResultsPanel";
+
+interface ChatTranscriptProps {
+  messages: ChatTurn[];
+  disabled: boolean;
+  onChange: (messages: ChatTurn[]) => void;
+}
+
+const roleLabels: Record<ChatTurn["role"], string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+};
+
+// Editable conversation sent ahead of the prompt. Assistant turns added from
+// a generation show their token coloring until they are edited.
+export default function ChatTranscript({ messages, disabled, onChange }: ChatTranscriptProps) {
+  const updateMessage = (index: number, changes: Partial<ChatTurn>) => {
+    onChange(messages.map((message, i) => (i === index ? { ...message, ...changes } : message)));
+  };
+
+  // Start with a system prompt, then alternate user and assistant turns
+  const addMessage = () => {
+    const last = messages[messages.length - 1];
+    const role = !last ? "system" : last.role === "user" ? "assistant" : "user";
+    onChange([...messages, { role, content: "" }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {messages.map((message, index) => (
+        <div key={index} className="border rounded-md p-2 bg-background">
+          <div className="flex items-center gap-2 mb-1">
+            <Select
+              value={message.role}
+              onValueChange={(role) => updateMessage(index, { role: role as ChatTurn["role"] })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-7 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chatRoles.map((role) => (
+                  <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex-1" />
+            {message.tokenProbabilities && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => updateMessage(index, { tokenProbabilities: undefined })}
+                disabled={disabled}
+                title="Edit this turn (its token probabilities are dropped)"
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onChange(messages.filter((_, i) => i !== index))}
+              disabled={disabled}
+              title="Remove message"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          {message.tokenProbabilities ? (
+            <div className="max-h-40 overflow-y-auto">
+              <TokenRun tokens={message.tokenProbabilities} />
+            </div>
+          ) : (
+            <Textarea
+              value={message.content}
+              onChange={(e) => updateMessage(index, { content: e.target.value })}
+              placeholder={message.role === "system" ? "System prompt" : `${roleLabels[message.role]} message`}
+              className="min-h-[40px] text-sm resize-y"
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={addMessage}
+        disabled={disabled}
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        {messages.length === 0 ? "Add system prompt" : "Add message"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { findDivergence } from "@/lib/utils";
+import { CompletionResponse, ProviderId, ProviderInfo } from "@shared/schema";
+import ResultsPanel from "./ResultsPanel";
+import { getModelLabel } from "./ModelSelect";
+
+// One model/temperature configuration in compare mode
+export interface ComparisonConfig {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+}
+
+export const MIN_COMPARISONS = 2;
+export const MAX_COMPARISONS = 4;
+
+interface ComparisonViewProps {
+  configs: ComparisonConfig[];
+  responses: (CompletionResponse | null)[];
+  providers: ProviderInfo[];
+  tokenViewEnabled: boolean;
+  isLoading: boolean;
+  onTokenViewToggle: (enabled: boolean) => void;
+  onStop: () => void;
+}
+
+export default function ComparisonView({
+  configs,
+  responses,
+  providers,
+  tokenViewEnabled,
+  isLoading,
+  onTokenViewToggle,
+  onStop,
+}: ComparisonViewProps) {
+  // Token selection and scrolling are shared by every column
+  const [selectedTokenIndex, setSelectedTokenIndex] = useState<number | null>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const labels = configs.map(
+    (config) => `${getModelLabel(providers, config.provider, config.model)} · T=${config.temperature}`
+  );
+
+  const completed = responses.filter((response): response is CompletionResponse => response !== null);
+  const hasResults = completed.length === configs.length && completed.some((r) => r.tokenProbabilities.length > 0);
+  const divergenceIndex = hasResults ? findDivergence(completed) : null;
+
+  return (
+    <div className="lg:w-[65%] flex flex-col gap-4 min-w-0">
+      {/* Divergence Summary */}
+      {hasResults && (
+        <Card className="p-3 text-sm">
+          {divergenceIndex === null ? (
+            <p>
+              All {configs.length} configurations produced the same {completed[0].tokenProbabilities.length} tokens.
+            </p>
+          ) : (
+            <>
+              <p className="mb-2">
+                {divergenceIndex === 0
+                  ? "The configurations diverge at the first token."
+                  : `The configurations agree on the first ${divergenceIndex} tokens and diverge at token ${divergenceIndex + 1}.`}
+                {isLoading && <span className="text-muted-foreground"> (still generating)</span>}
+              </p>
+              <ul className="space-y-1 text-xs">
+                {completed.map((response, index) => {
+                  const tokenData = response.tokenProbabilities[divergenceIndex];
+                  // How likely this configuration found the tokens the others chose
+                  const others = completed
+                    .filter((_, i) => i !== index)
+                    .map((other) => other.tokenProbabilities[divergenceIndex]?.token)
+                    .filter((token): token is string => token !== undefined && token !== tokenData?.token);
+                  const considered = Array.from(new Set(others)).map((token) => ({
+                    token,
+                    probability: tokenData?.alternatives.find((alt) => alt.token === token)?.probability,
+                  }));
+
+                  return (
+                    <li key={index} className="flex flex-wrap items-baseline gap-x-2">
+                      <span className="font-medium">{labels[index]}:</span>
+                      {tokenData ? (
+                        <span className="font-mono">
+                          {JSON.stringify(tokenData.token)} ({(tokenData.probability * 100).toFixed(1)}%)
+                        </span>
+                      ) : (
+                        <span className="italic text-muted-foreground">ended</span>
+                      )}
+                      {tokenData && considered.length > 0 && (
+                        <span className="text-muted-foreground">
+                          vs.{" "}
+                          {considered
+                            .map(({ token, probability }) =>
+                              `${JSON.stringify(token)} ${probability !== undefined ? `${(probability * 100).toFixed(1)}%` : "not in top alternatives"}`
+                            )
+                            .join(", ")}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </Card>
+      )}
+
+      {/* Synchronized Columns */}
+      <div className={`grid gap-4 md:grid-cols-2 ${configs.length === 3 ? "xl:grid-cols-3" : ""}`}>
+        {configs.map((_, index) => (
+          <ResultsPanel
+            key={index}
+            title={labels[index]}
+            className="lg:w-auto h-[600px] min-h-0"
+            response={responses[index] ?? null}
+            tokenViewEnabled={tokenViewEnabled}
+            isLoading={isLoading && !responses[index]?.responseTime}
+            onTokenViewToggle={onTokenViewToggle}
+            onStop={onStop}
+            selectedTokenIndex={selectedTokenIndex}
+            onSelectedTokenIndexChange={setSelectedTokenIndex}
+            divergenceIndex={divergenceIndex}
+            scrollTop={scrollTop}
+            onScrollTopChange={setScrollTop}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
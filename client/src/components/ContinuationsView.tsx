@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Search } from "lucide-react";
+import { getTokenColorClass } from "@/lib/utils";
+import { formatSequenceProbability } from "@/lib/tokenTree";
+import { ContinuationsRequest, ContinuationsResponse } from "@shared/schema";
+
+export type ContinuationsOptions = Pick<ContinuationsRequest, "depth" | "width" | "count" | "length">;
+
+interface ContinuationsViewProps {
+  result: ContinuationsResponse | null;
+  isLoading: boolean;
+  onExplore: (options: ContinuationsOptions) => void;
+}
+
+// Search settings, within the limits of continuationsRequestSchema
+const optionFields: { key: keyof ContinuationsOptions; label: string; min: number; max: number }[] = [
+  { key: "depth", label: "Positions expanded", min: 1, max: 4 },
+  { key: "width", label: "Candidates per position", min: 2, max: 5 },
+  { key: "count", label: "Continuations kept", min: 1, max: 10 },
+  { key: "length", label: "Length (tokens)", min: 1, max: 32 },
+];
+
+const defaultOptions: ContinuationsOptions = { depth: 2, width: 3, count: 5, length: 12 };
+
+// The most probable short continuations of the prompt, ranked by joint
+// probability, next to the model's greedy output
+export default function ContinuationsView({ result, isLoading, onExplore }: ContinuationsViewProps) {
+  const [options, setOptions] = useState<ContinuationsOptions>(defaultOptions);
+
+  const greedyRank = result ? result.continuations.findIndex((continuation) => continuation.isGreedy) : -1;
+  // Each expanded position asks for one token per kept beam, then every beam is finished
+  const maxRequests = 1 + (options.depth - 1) * (options.count + 1) + options.count + 1;
+
+  const setOption = (field: (typeof optionFields)[number], raw: string) => {
+    const value = Math.trunc(Number(raw));
+    if (Number.isNaN(value)) return;
+    setOptions((prev) => ({ ...prev, [field.key]: Math.min(field.max, Math.max(field.min, value)) }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-3 items-end">
+        {optionFields.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`continuations-${field.key}`} className="text-xs text-muted-foreground">{field.label}</Label>
+            <Input
+              id={`continuations-${field.key}`}
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={options[field.key]}
+              onChange={(e) => setOption(field, e.target.value)}
+              disabled={isLoading}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <Button size="sm" className="h-7 text-xs" onClick={() => onExplore(options)} disabled={isLoading}>
+          <Search className="mr-1 h-3 w-3" />
+          {isLoading ? "Searching..." : "Find likely continuations"}
+        </Button>
+        <span className="text-xs text-muted-foreground">Up to {maxRequests} requests</span>
+      </div>
+
+      {result && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {greedyRank === 0
+              ? "The greedy output is also the most probable continuation found."
+              : `The greedy output ranks #${greedyRank + 1}: a less likely first token can lead to a more probable sequence.`}
+            {` ${result.requests} requests, ${result.responseTime}s.`}
+          </p>
+          <ol className="space-y-2">
+            {result.continuations.map((continuation, index) => (
+              <li key={index} className="flex gap-3 border rounded-md p-2">
+                <span className="text-sm font-medium w-6 shrink-0">#{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium whitespace-pre-wrap leading-relaxed text-sm">
+                    {continuation.tokenProbabilities.map((tokenData, tokenIndex) => (
+                      <span
+                        key={tokenIndex}
+                        className={`rounded px-0.5 py-0.5 inline-block border ${getTokenColorClass(tokenData.probability)}`}
+                        title={`${(tokenData.probability * 100).toFixed(2)}%`}
+                      >
+                        {tokenData.token}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="text-sm font-mono">{formatSequenceProbability(continuation.probability)}</div>
+                  <div className="text-xs text-muted-foreground font-mono">log p {continuation.logprob.toFixed(2)}</div>
+                  {continuation.isGreedy && <Badge variant="secondary" className="mt-1 text-[10px]">greedy</Badge>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { History, Trash2 } from "lucide-react";
+import { HistorySummary } from "@shared/schema";
+
+interface HistorySidebarProps {
+  activeId: number | null;
+  onSelect: (id: number) => void;
+}
+
+// Format an ISO timestamp as a short local date and time
+const formatCreatedAt = (createdAt: string): string =>
+  new Date(createdAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function HistorySidebar({ activeId, onSelect }: HistorySidebarProps) {
+  const { toast } = useToast();
+
+  const { data: history, isLoading } = useQuery<HistorySummary[]>({
+    queryKey: ["/api/history"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/history/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/history"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not delete this run",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="flex flex-row items-center gap-2 px-4 pt-4 font-semibold">
+        <History className="h-4 w-4" />
+        History
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Past runs</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading && Array.from({ length: 3 }).map((_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton />
+                </SidebarMenuItem>
+              ))}
+
+              {!isLoading && history?.length === 0 && (
+                <p className="px-2 text-xs text-muted-foreground">
+                  Runs you generate will appear here.
+                </p>
+              )}
+
+              {history?.map((entry) => (
+                <SidebarMenuItem key={entry.id}>
+                  <SidebarMenuButton
+                    isActive={entry.id === activeId}
+                    onClick={() => onSelect(entry.id)}
+                    className="h-auto flex-col items-start gap-0.5 py-2"
+                    title={entry.prompt}
+                  >
+                    <span className="w-full truncate">{entry.prompt}</span>
+                    <span className="text-[10px] text-muted-foreground">
+                      {entry.model} · {entry.completionTokens ?? 0} tokens · {formatCreatedAt(entry.createdAt)}
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    title="Delete run"
+                  >
+                    <Trash2 />
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -2,122 +2,210 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { Play, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Play, Plus, Trash2, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTokens } from "@/lib/hooks";
+import { ChatTurn, ProviderId, ProviderInfo, SamplingParams } from "@shared/schema";
+import AdvancedSettings from "./AdvancedSettings";
+import ChatTranscript from "./ChatTranscript";
+import ModelSelect from "./ModelSelect";
+import { ComparisonConfig, MAX_COMPARISONS, MIN_COMPARISONS } from "./ComparisonView";
 
 interface InputPanelProps {
   prompt: string;
+  messages: ChatTurn[];
+  provider: ProviderId;
   model: string;
+  providers: ProviderInfo[];
   temperature: number;
   maxTokens: number;
+  topLogprobs: number;
+  sampleCount: number;
+  samplingParams: SamplingParams;
   isPending: boolean;
   onPromptChange: (prompt: string) => void;
-  onModelChange: (model: string) => void;
+  onMessagesChange: (messages: ChatTurn[]) => void;
+  onModelChange: (provider: ProviderId, model: string) => void;
   onTemperatureChange: (temperature: number) => void;
   onMaxTokensChange: (maxTokens: number) => void;
+  onTopLogprobsChange: (topLogprobs: number) => void;
+  onSampleCountChange: (sampleCount: number) => void;
+  onSamplingParamsChange: (params: SamplingParams) => void;
+  compareMode: boolean;
+  comparisons: ComparisonConfig[];
+  onCompareModeChange: (enabled: boolean) => void;
+  onComparisonsChange: (comparisons: ComparisonConfig[]) => void;
+  scoreMode: boolean;
+  completion: string;
+  onScoreModeChange: (enabled: boolean) => void;
+  onCompletionChange: (completion: string) => void;
+  // Longest completion the server will score, in tokens
+  maxScoredTokens?: number;
   onSubmit: () => void;
   onClearResponse: () => void;
 }
 
 export default function InputPanel({
   prompt,
+  messages,
+  provider,
   model,
+  providers,
   temperature,
   maxTokens,
+  topLogprobs,
+  sampleCount,
+  samplingParams,
   isPending,
   onPromptChange,
+  onMessagesChange,
   onModelChange,
   onTemperatureChange,
   onMaxTokensChange,
+  onTopLogprobsChange,
+  onSampleCountChange,
+  onSamplingParamsChange,
+  compareMode,
+  comparisons,
+  onCompareModeChange,
+  onComparisonsChange,
+  scoreMode,
+  completion,
+  onScoreModeChange,
+  onCompletionChange,
+  maxScoredTokens,
   onSubmit,
   onClearResponse,
 }: InputPanelProps) {
   const { toast } = useToast();
-  const [tokenCount, setTokenCount] = useState<number>(0);
+  const [showPromptTokens, setShowPromptTokens] = useState<boolean>(false);
 
-  // Estimate token count based on text length (rough approximation)
-  const updateTokenCount = (text: string) => {
-    // Rough approximation: 1 token ≈ 4 characters
-    const tokenEstimate = Math.ceil(text.length / 4);
-    setTokenCount(tokenEstimate);
-  };
+  // Tokenize the prompt with the selected model's encoding
+  const { tokens: promptTokens, count: tokenCount, encoding, failed: tokenizerFailed, isExact } = useTokens(prompt, model);
+
+  // Scoring makes one request per token of the completion
+  const { tokens: completionTokens, count: completionTokenCount } = useTokens(scoreMode ? completion : "", model);
+  const scoreRequests = completionTokens ? completionTokens.length : completionTokenCount;
+  const isCompletionTooLong = maxScoredTokens !== undefined && completionTokenCount > maxScoredTokens;
+  const scoringIsApproximate = providers.find((info) => info.id === provider)?.nativePrefill === false;
 
-  // Handle prompt change with token count update
-  const handlePromptChange = (value: string) => {
-    onPromptChange(value);
-    updateTokenCount(value);
+  const updateComparison = (index: number, changes: Partial<ComparisonConfig>) => {
+    onComparisonsChange(comparisons.map((config, i) => (i === index ? { ...config, ...changes } : config)));
   };
 
   return (
     <Card className="flex-1 p-4 max-w-full lg:max-w-[35%]">
       <div className="mb-2 flex justify-between items-center">
         <h2 className="text-lg font-semibold">Input</h2>
-        <div className="text-xs text-gray-500">
-          Est. tokens: {tokenCount}
+        <div
+          className="text-xs text-gray-500"
+          title={isExact ? `Counted with ${encoding}` : `Approximated with ${encoding}`}
+        >
+          {isExact ? "Tokens" : "Est. tokens"}: {tokenCount}
         </div>
       </div>
 
+      {/* Conversation sent before the prompt */}
+      <div className="mb-4">
+        <Label className="block mb-2">Conversation</Label>
+        <ChatTranscript
+          messages={messages}
+          disabled={isPending}
+          onChange={onMessagesChange}
+        />
+      </div>
+
       {/* Prompt textarea */}
       <div className="mb-4">
         <Label htmlFor="prompt" className="block mb-2">
-          Prompt
+          {messages.length > 0 ? "Next user message" : "Prompt"}
         </Label>
         <Textarea
           id="prompt"
           value={prompt}
-          onChange={(e) => handlePromptChange(e.target.value)}
+          onChange={(e) => onPromptChange(e.target.value)}
           placeholder="Enter a query here"
           className="min-h-[80px] resize-y"
           disabled={isPending}
         />
+        <div className="flex items-center justify-end gap-2 mt-1">
+          <Label htmlFor="togglePromptTokens" className="text-xs text-muted-foreground">
+            Show tokens
+          </Label>
+          <Switch
+            id="togglePromptTokens"
+            checked={showPromptTokens}
+            onCheckedChange={setShowPromptTokens}
+            className="scale-75 origin-right"
+          />
+        </div>
+        {showPromptTokens && prompt && (
+          <div className="mt-1 p-2 border rounded-md bg-muted/10 font-mono text-xs whitespace-pre-wrap break-words leading-relaxed">
+            {promptTokens
+              ? promptTokens.map((piece, index) => (
+                  <span
+                    key={index}
+                    className={index % 2 === 0 ? "bg-indigo-100" : "bg-amber-100"}
+                    title={piece.tokenIds.length > 1
+                      ? `${piece.tokenIds.length} tokens (IDs ${piece.tokenIds.join(", ")}) that only form whole characters together`
+                      : `Token ID ${piece.tokenIds[0]}`}
+                  >
+                    {piece.text}
+                  </span>
+                ))
+              : <span className="text-muted-foreground">
+                  {tokenizerFailed ? `Could not load ${encoding}; the count is an estimate` : `Loading ${encoding}...`}
+                </span>}
+          </div>
+        )}
       </div>
 
       {/* Compact Controls Row */}
       <div className="mb-6 border rounded-lg p-3 bg-muted/10">
         <Label className="text-sm font-medium mb-2 block">Model Settings</Label>
         <div className="grid grid-cols-12 gap-3">
-          {/* Model selection */}
-          <div className="col-span-4">
-            <div className="text-xs text-muted-foreground mb-1">Model</div>
-            <Select
-              value={model}
-              onValueChange={onModelChange}
-              disabled={isPending}
-            >
-              <SelectTrigger className="h-8 text-xs">
-                <SelectValue placeholder="Select a model" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
-                <SelectItem value="gpt-4">GPT-4 (uses GPT-4o)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          {/* Model and temperature are set per configuration in compare mode */}
+          {!compareMode && (
+            <>
+              {/* Model selection */}
+              <div className="col-span-4">
+                <div className="text-xs text-muted-foreground mb-1">Model</div>
+                <ModelSelect
+                  providers={providers}
+                  provider={provider}
+                  model={model}
+                  onChange={onModelChange}
+                  disabled={isPending}
+                />
+              </div>
 
-          {/* Temperature slider */}
-          <div className="col-span-4">
-            <div className="flex justify-between mb-1">
-              <span className="text-xs text-muted-foreground">Temperature</span>
-              <span className="text-xs font-medium">{temperature}</span>
-            </div>
-            <Slider
-              id="temperature"
-              min={0}
-              max={2}
-              step={0.1}
-              value={[temperature]}
-              onValueChange={(values) => onTemperatureChange(values[0])}
-              disabled={isPending}
-              className="py-1"
-            />
-            <div className="flex justify-between text-[10px] text-muted-foreground">
-              <span>Deterministic</span>
-              <span>Creative</span>
-            </div>
-          </div>
+              {/* Temperature slider */}
+              <div className="col-span-4">
+                <div className="flex justify-between mb-1">
+                  <span className="text-xs text-muted-foreground">Temperature</span>
+                  <span className="text-xs font-medium">{temperature}</span>
+                </div>
+                <Slider
+                  id="temperature"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={[temperature]}
+                  onValueChange={(values) => onTemperatureChange(values[0])}
+                  disabled={isPending}
+                  className="py-1"
+                />
+                <div className="flex justify-between text-[10px] text-muted-foreground">
+                  <span>Deterministic</span>
+                  <span>Creative</span>
+                </div>
+              </div>
+            </>
+          )}
 
           {/* Max tokens slider */}
           <div className="col-span-4">
@@ -140,9 +228,170 @@ export default function InputPanel({
               <span>Long</span>
             </div>
           </div>
+
+          {/* Top logprobs slider */}
+          <div className="col-span-4">
+            <div className="flex justify-between mb-1">
+              <span className="text-xs text-muted-foreground">Alternatives</span>
+              <span className="text-xs font-medium">{topLogprobs}</span>
+            </div>
+            <Slider
+              id="topLogprobs"
+              min={0}
+              max={20}
+              step={1}
+              value={[topLogprobs]}
+              onValueChange={(values) => onTopLogprobsChange(values[0])}
+              disabled={isPending}
+              className="py-1"
+            />
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>None</span>
+              <span>Top 20</span>
+            </div>
+          </div>
+
+          {/* Number of samples; comparisons and scoring produce one response each */}
+          {!compareMode && !scoreMode && (
+            <div className="col-span-4">
+              <div className="flex justify-between mb-1">
+                <span className="text-xs text-muted-foreground">Samples</span>
+                <span className="text-xs font-medium">{sampleCount}</span>
+              </div>
+              <Slider
+                id="sampleCount"
+                min={1}
+                max={10}
+                step={1}
+                value={[sampleCount]}
+                onValueChange={(values) => onSampleCountChange(values[0])}
+                disabled={isPending}
+                className="py-1"
+              />
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>One (streamed)</span>
+                <span>10</span>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* top_p, penalties, seed, stop and logit_bias */}
+      <AdvancedSettings
+        params={samplingParams}
+        model={model}
+        disabled={isPending}
+        onChange={onSamplingParamsChange}
+      />
+
+      {/* Completion to score */}
+      <div className="mb-4 border rounded-lg p-3 bg-muted/10">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="toggleScore" className="text-sm font-medium">Score text</Label>
+          <Switch
+            id="toggleScore"
+            checked={scoreMode}
+            onCheckedChange={onScoreModeChange}
+            disabled={isPending}
+            className="scale-75 origin-right"
+          />
+        </div>
+        {scoreMode && (
+          <div className="mt-3">
+            <p className="text-xs text-muted-foreground mb-2">
+              Instead of generating, see how likely the model finds this exact completion, token by token.
+            </p>
+            <Textarea
+              id="completion"
+              value={completion}
+              onChange={(e) => onCompletionChange(e.target.value)}
+              placeholder="Enter a completion to score"
+              className="min-h-[60px] resize-y"
+              disabled={isPending}
+            />
+            {completion.trim() && (
+              <p className={`text-xs mt-1 ${isCompletionTooLong ? "text-destructive" : "text-muted-foreground"}`}>
+                {isCompletionTooLong
+                  ? `${completionTokenCount} tokens: at most ${maxScoredTokens} can be scored`
+                  : `Scoring makes ${completionTokens ? "" : "about "}${scoreRequests} completion request${scoreRequests === 1 ? "" : "s"}, one per token`}
+              </p>
+            )}
+            {scoringIsApproximate && (
+              <p className="text-xs text-muted-foreground mt-1">
+                This provider can't continue a prefilled reply, so it is asked to continue the text instead: scores are approximate.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Comparison configurations */}
+      <div className="mb-6 border rounded-lg p-3 bg-muted/10">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="toggleCompare" className="text-sm font-medium">Compare models</Label>
+          <Switch
+            id="toggleCompare"
+            checked={compareMode}
+            onCheckedChange={onCompareModeChange}
+            disabled={isPending}
+            className="scale-75 origin-right"
+          />
+        </div>
+        {compareMode && (
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              The prompt is sent to every configuration in parallel.
+            </p>
+            {comparisons.map((config, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-4 text-xs text-muted-foreground">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <ModelSelect
+                    providers={providers}
+                    provider={config.provider}
+                    model={config.model}
+                    onChange={(newProvider, newModel) => updateComparison(index, { provider: newProvider, model: newModel })}
+                    disabled={isPending}
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={config.temperature}
+                  onChange={(e) => updateComparison(index, { temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                  disabled={isPending}
+                  className="h-8 w-16 text-xs px-2"
+                  title="Temperature"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onComparisonsChange(comparisons.filter((_, i) => i !== index))}
+                  disabled={isPending || comparisons.length <= MIN_COMPARISONS}
+                  title="Remove configuration"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onComparisonsChange([...comparisons, comparisons[comparisons.length - 1]])}
+              disabled={isPending || comparisons.length >= MAX_COMPARISONS}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add configuration
+            </Button>
+          </div>
+        )}
+      </div>
+
       {/* Action buttons */}
       <div className="flex gap-2 justify-end">
         <Button
@@ -156,10 +405,12 @@ export default function InputPanel({
         </Button>
         <Button
           onClick={onSubmit}
-          disabled={isPending || !prompt.trim()}
+          disabled={isPending || !prompt.trim() || (scoreMode && (!completion.trim() || isCompletionTooLong))}
           className="flex-1"
         >
-          {isPending ? "Generating..." : "Generate"}
+          {isPending
+            ? (scoreMode ? "Scoring..." : "Generating...")
+            : (scoreMode ? "Score" : "Generate")}
           {!isPending && <Play className="ml-2 h-4 w-4" />}
         </Button>
       </div>
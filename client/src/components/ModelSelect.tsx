@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProviderId, ProviderInfo } from "@shared/schema";
+
+interface ModelSelectProps {
+  providers: ProviderInfo[];
+  provider: ProviderId;
+  model: string;
+  disabled?: boolean;
+  onChange: (provider: ProviderId, model: string) => void;
+}
+
+// Label for a model as listed by its provider, falling back to the raw ID
+export const getModelLabel = (providers: ProviderInfo[], provider: ProviderId, model: string): string =>
+  providers.find((info) => info.id === provider)?.models.find((m) => m.id === model)?.label ?? model;
+
+export default function ModelSelect({ providers, provider, model, disabled, onChange }: ModelSelectProps) {
+  // Models from every provider share one dropdown, keyed by "provider:model"
+  const handleSelect = (value: string) => {
+    const separator = value.indexOf(":");
+    onChange(value.slice(0, separator) as ProviderId, value.slice(separator + 1));
+  };
+
+  return (
+    <Select
+      value={`${provider}:${model}`}
+      onValueChange={handleSelect}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Select a model" />
+      </SelectTrigger>
+      <SelectContent>
+        {providers.map((providerInfo) => (
+          <SelectGroup key={providerInfo.id}>
+            {providers.length > 1 && (
+              <SelectLabel className="text-xs">{providerInfo.label}</SelectLabel>
+            )}
+            {providerInfo.models.map((modelInfo) => (
+              <SelectItem
+                key={modelInfo.id}
+                value={`${providerInfo.id}:${modelInfo.id}`}
+              >
+                {modelInfo.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { TokenProbability } from "@shared/schema";
+import { entropy } from "@shared/analytics";
+
+interface ProbabilityChartProps {
+  tokens: TokenProbability[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+const chartConfig = {
+  probability: { label: "Probability", color: "hsl(var(--chart-1))" },
+  margin: { label: "Top-1 − top-2 margin", color: "hsl(var(--chart-3))" },
+  entropy: { label: "Entropy (bits)", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Gap between the most and second most likely candidates at a position
+const getMargin = (tokenData: TokenProbability): number => {
+  const [first = 0, second = 0] = [tokenData.probability, ...tokenData.alternatives.map((alt) => alt.probability)]
+    .sort((a, b) => b - a);
+  return first - second;
+};
+
+export default function ProbabilityChart({ tokens, selectedIndex, onSelect }: ProbabilityChartProps) {
+  const data = useMemo(
+    () =>
+      tokens.map((tokenData, index) => ({
+        position: index,
+        token: tokenData.token,
+        probability: tokenData.probability,
+        margin: getMargin(tokenData),
+        entropy: entropy(tokenData),
+      })),
+    [tokens]
+  );
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+      <LineChart
+        data={data}
+        margin={{ top: 8, right: 8, bottom: 0, left: -16 }}
+        onClick={(state) => {
+          if (typeof state?.activeTooltipIndex === "number") {
+            onSelect(state.activeTooltipIndex);
+          }
+        }}
+        className="cursor-pointer"
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="position"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(position: number) => String(position + 1)}
+          minTickGap={16}
+        />
+        <YAxis yAxisId="probability" domain={[0, 1]} tickLine={false} axisLine={false} />
+        <YAxis yAxisId="entropy" orientation="right" tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const point = payload[0]?.payload;
+                return point ? `#${point.position + 1} ${JSON.stringify(point.token)}` : null;
+              }}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                  <span className="font-mono">
+                    {name === "entropy" ? Number(value).toFixed(2) : `${(Number(value) * 100).toFixed(1)}%`}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {selectedIndex !== null && (
+          <ReferenceLine yAxisId="probability" x={selectedIndex} stroke="hsl(var(--primary))" strokeDasharray="3 3" />
+        )}
+        <Line
+          yAxisId="probability"
+          dataKey="probability"
+          stroke="var(--color-probability)"
+          dot={tokens.length <= 60}
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="probability"
+          dataKey="margin"
+          stroke="var(--color-margin)"
+          dot={false}
+          strokeOpacity={0.7}
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="entropy"
+          dataKey="entropy"
+          stroke="var(--color-entropy)"
+          dot={false}
+          strokeDasharray="4 2"
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
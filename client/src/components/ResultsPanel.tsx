@@ -1,42 +1,93 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo, useEffect, ReactElement } from "react";
 import { Card } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { Clipboard, Clock, Tag, X } from "lucide-react";
-import { TokenProbability } from "@shared/schema";
-
-// Response type from the server
-type OpenAIResponse = {
-  text: string;
-  tokenProbabilities: TokenProbability[];
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  responseTime: string;
-  model: string;
-};
+import { cn, downloadFile, getTokenColorClass } from "@/lib/utils";
+import { toCsv, toJsonl, toRunExport, toTokenRows } from "@/lib/export";
+import { Clipboard, Clock, Download, GitBranch, Info, MessageSquarePlus, Share2, Square, Tag, X } from "lucide-react";
+import { BranchResponse, CompletionResponse, ContinuationsResponse, RunSettings, TokenProbability } from "@shared/schema";
+import { computeAnalytics, entropy, surprisal } from "@shared/analytics";
+import ProbabilityChart from "./ProbabilityChart";
+import SamplingSimulator from "./SamplingSimulator";
+import SampleStack from "./SampleStack";
+import TokenTree from "./TokenTree";
+import ContinuationsView, { ContinuationsOptions } from "./ContinuationsView";
+import TokenBiasMenu, { BiasAction } from "./TokenBiasMenu";
+
+type ResultsView = "tokens" | "chart" | "simulate" | "samples" | "tree" | "likely";
 
 interface ResultsPanelProps {
-  response: OpenAIResponse | null;
+  response: CompletionResponse | null;
   tokenViewEnabled: boolean;
-  autoContinueEnabled: boolean;
   isLoading: boolean;
   onTokenViewToggle: (enabled: boolean) => void;
-  onAutoContinueToggle: (enabled: boolean) => void;
+  // The Stop button is hidden for requests that can't be stopped
+  onStop?: () => void;
+  // Auto Continue controls are hidden when no toggle handler is given
+  autoContinueEnabled?: boolean;
+  onAutoContinueToggle?: (enabled: boolean) => void;
+  autoContinueBudget?: number;
+  onAutoContinueBudgetChange?: (budget: number) => void;
+  // Branching is disabled when no branch handler is given
+  branches?: BranchResponse[];
+  activeBranchIndex?: number | null;
+  isBranching?: boolean;
+  onBranch?: (position: number, alternative: string) => void;
+  onBranchSelect?: (index: number | null) => void;
+  // Settings of the shown run: its prompt is the root of the token tree, and
+  // the whole run can be exported as JSON when given
+  request?: RunSettings | null;
+  // The "most likely continuations" search is offered when given
+  continuations?: ContinuationsResponse | null;
+  isExploring?: boolean;
+  onExploreContinuations?: (options: ContinuationsOptions) => void;
+  // Opens the share dialog for a permalink to the run
+  onShare?: () => void;
+  // Appends the prompt and the shown response to the chat transcript
+  onAddToConversation?: (response: CompletionResponse) => void;
+  // Right-clicking a token offers ban/suppress/boost when given
+  onBias?: (token: string, action: BiasAction) => void;
+  // Used by comparison columns: a heading, a shared token selection and
+  // scroll position, and the position where the columns first diverge
+  title?: string;
+  className?: string;
+  selectedTokenIndex?: number | null;
+  onSelectedTokenIndexChange?: (index: number | null) => void;
+  divergenceIndex?: number | null;
+  scrollTop?: number;
+  onScrollTopChange?: (scrollTop: number) => void;
 }
 
-// Get token color based on probability
-const getTokenColorClass = (probability: number): string => {
-  if (probability >= 0.9) return "bg-green-100 hover:bg-green-200 border-green-300"; // Very high probability
-  if (probability >= 0.7) return "bg-teal-100 hover:bg-teal-200 border-teal-300"; // High probability  
-  if (probability >= 0.5) return "bg-blue-100 hover:bg-blue-200 border-blue-300"; // Medium probability
-  if (probability >= 0.3) return "bg-yellow-100 hover:bg-yellow-200 border-yellow-300"; // Low probability
-  if (probability >= 0.1) return "bg-orange-100 hover:bg-orange-200 border-orange-300"; // Very low probability
-  return "bg-red-100 hover:bg-red-200 border-red-300"; // Extremely low probability
+// Probability mass not covered by the token and its returned alternatives
+const getRemainingProbability = (tokenData: TokenProbability): number => {
+  const covered = tokenData.alternatives.reduce(
+    (sum, alt) => sum + alt.probability,
+    tokenData.probability
+  );
+  return Math.max(0, 1 - covered);
+};
+
+// Tooltip with the token's probability and uncertainty measures
+const getTokenTitle = (tokenData: TokenProbability): string => {
+  // Scored tokens outside the model's top alternatives only have a bound
+  const bound = tokenData.estimated ? ["≤ ", "≥ "] : ["", ""];
+  return `${bound[0]}${(tokenData.probability * 100).toFixed(1)}% probability` +
+    (tokenData.estimated ? " (not in the model's top alternatives)" : "") + "\n" +
+    `Surprisal: ${bound[1]}${surprisal(tokenData.probability).toFixed(2)} bits\n` +
+    `Entropy: ${entropy(tokenData).toFixed(2)} bits`;
 };
 
 // Color key for reference
@@ -49,18 +100,90 @@ const probabilityColorKey = [
   { label: "0-9%", colorClass: "bg-red-100 border-red-300", probability: "Extremely Low" },
 ];
 
+// Read-only run of colored tokens, used to compare branches and to show
+// generated turns in the chat transcript
+export function TokenRun({ tokens }: { tokens: TokenProbability[] }) {
+  return (
+    <div className="font-medium whitespace-pre-wrap leading-relaxed text-sm">
+      {tokens.map((tokenData, index) => (
+        <span
+          key={index}
+          className={`rounded px-0.5 py-0.5 inline-block border ${getTokenColorClass(tokenData.probability)}`}
+          title={getTokenTitle(tokenData)}
+        >
+          {tokenData.token}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export default function ResultsPanel({
-  response,
+  response: originalResponse,
   tokenViewEnabled,
   autoContinueEnabled,
   isLoading,
   onTokenViewToggle,
   onAutoContinueToggle,
+  autoContinueBudget = 0,
+  onAutoContinueBudgetChange,
+  onStop,
+  branches = [],
+  activeBranchIndex = null,
+  isBranching = false,
+  onBranch,
+  onBranchSelect,
+  request = null,
+  continuations = null,
+  isExploring = false,
+  onExploreContinuations,
+  onShare,
+  onAddToConversation,
+  onBias,
+  title,
+  className,
+  selectedTokenIndex: controlledSelectedIndex,
+  onSelectedTokenIndexChange,
+  divergenceIndex = null,
+  scrollTop,
+  onScrollTopChange,
 }: ResultsPanelProps) {
   const { toast } = useToast();
-  const [selectedTokenIndex, setSelectedTokenIndex] = useState<number | null>(null);
+  const [localSelectedIndex, setLocalSelectedIndex] = useState<number | null>(null);
+  const [view, setView] = useState<ResultsView>("tokens");
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // The selection is controlled when the parent passes one in
+  const selectedTokenIndex = controlledSelectedIndex !== undefined ? controlledSelectedIndex : localSelectedIndex;
+  const setSelectedTokenIndex = (index: number | null) => {
+    setLocalSelectedIndex(index);
+    onSelectedTokenIndexChange?.(index);
+  };
+
+  // Follow a scroll position shared with other panels
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && scrollTop !== undefined && Math.abs(container.scrollTop - scrollTop) > 1) {
+      container.scrollTop = scrollTop;
+    }
+  }, [scrollTop]);
+
+  // The token view shows either the original response or the selected branch
+  const activeBranch = activeBranchIndex !== null ? branches[activeBranchIndex] ?? null : null;
+  const response: CompletionResponse | null = activeBranch ?? originalResponse;
+  // Every completion of an n > 1 run; the token view shows the first
+  const samples = originalResponse?.samples;
+  // The tree is shown where branches can be grown, or when there are some to see
+  const showTree = Boolean(onBranch) || branches.length > 0;
+  const activeView: ResultsView =
+    (view === "samples" && !samples) || (view === "tree" && !showTree) ? "tokens" : view;
+
+  // Opened run files leave analytics out, so they are computed here
+  const analytics = useMemo(
+    () => response ? response.analytics ?? computeAnalytics(response.tokenProbabilities) : null,
+    [response]
+  );
+
   // Copy response to clipboard
   const copyResponseToClipboard = () => {
     if (response) {
@@ -81,6 +204,28 @@ export default function ResultsPanel({
     }
   };
 
+  // The JSON file holds the whole run; the token tables hold the shown response
+  const exportRun = () => {
+    if (request && originalResponse) {
+      const exported = toRunExport(request, originalResponse, branches);
+      downloadFile("run.json", JSON.stringify(exported, null, 2), "application/json");
+    }
+  };
+
+  const exportTokens = (format: "csv" | "jsonl") => {
+    if (!response) return;
+    const rows = toTokenRows(response.tokenProbabilities);
+    if (format === "csv") {
+      downloadFile("tokens.csv", toCsv(rows), "text/csv");
+    } else {
+      downloadFile("tokens.jsonl", toJsonl(rows), "application/x-ndjson");
+    }
+  };
+
+  // Token lists get the steering menu when biasing is enabled
+  const withBiasMenu = (list: ReactElement) =>
+    onBias ? <TokenBiasMenu onBias={onBias}>{list}</TokenBiasMenu> : list;
+
   // Handle token click
   const handleTokenClick = (index: number) => {
     setSelectedTokenIndex(index === selectedTokenIndex ? null : index);
@@ -96,33 +241,74 @@ export default function ResultsPanel({
     response.tokenProbabilities && 
     response.tokenProbabilities.length > 0;
 
+  // While streaming, tokens are shown as soon as the first one arrives
+  const isWaitingForFirstToken = isLoading && !hasTokenProbabilities;
+
   return (
-    <Card className="lg:w-[65%] p-4 shadow-sm min-h-[500px] flex flex-col">
+    <Card className={cn("lg:w-[65%] p-4 shadow-sm min-h-[500px] flex flex-col", className)}>
       {/* Results Controls */}
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2">
-            <Label htmlFor="toggleAutoContinue" className="text-xs font-medium">Auto Continue</Label>
-            <Switch
-              id="toggleAutoContinue"
-              checked={autoContinueEnabled}
-              onCheckedChange={onAutoContinueToggle}
-              className="scale-75 origin-left"
-            />
-          </div>
+          {title && (
+            <h3 className="text-sm font-medium truncate" title={title}>{title}</h3>
+          )}
+          {onAutoContinueToggle && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="toggleAutoContinue" className="text-xs font-medium">Auto Continue</Label>
+              <Switch
+                id="toggleAutoContinue"
+                checked={autoContinueEnabled}
+                onCheckedChange={onAutoContinueToggle}
+                className="scale-75 origin-left"
+              />
+            </div>
+          )}
+          {onAutoContinueToggle && autoContinueEnabled && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="autoContinueBudget" className="text-xs text-muted-foreground">Token budget</Label>
+              <Input
+                id="autoContinueBudget"
+                type="number"
+                min={1}
+                max={16384}
+                value={autoContinueBudget}
+                onChange={(e) => onAutoContinueBudgetChange?.(Math.max(1, Number(e.target.value) || 1))}
+                disabled={isLoading}
+                className="h-6 w-20 text-xs px-2"
+                title="Auto Continue resubmits while responses are cut off by Max Tokens, up to this many tokens overall"
+              />
+            </div>
+          )}
         </div>
-        <div>
+        <div className="flex items-center gap-3">
           {response && (
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <span>Completion Tokens:</span>
-              <span className="font-mono font-medium">{response.usage.completionTokens}</span>
+              <span className="font-mono font-medium">
+                {response.usage.completionTokens || response.tokenProbabilities.length}
+              </span>
             </div>
           )}
+          {isLoading && onStop && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onStop}
+              className="h-6 px-2 text-xs"
+            >
+              <Square className="mr-1 h-3 w-3" />
+              Stop
+            </Button>
+          )}
         </div>
       </div>
 
       {/* Results Content */}
-      <div className="flex-grow overflow-auto relative" ref={containerRef}>
+      <div
+        className="flex-grow overflow-auto relative"
+        ref={containerRef}
+        onScroll={onScrollTopChange && ((e) => onScrollTopChange(e.currentTarget.scrollTop))}
+      >
         {/* Initial State / Empty State */}
         {!response && !isLoading && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
@@ -147,7 +333,7 @@ export default function ResultsPanel({
         )}
 
         {/* Loading State */}
-        {isLoading && (
+        {isWaitingForFirstToken && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-primary">
             <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary mb-4"></div>
             <p className="text-center">Generating response...</p>
@@ -155,8 +341,48 @@ export default function ResultsPanel({
         )}
 
         {/* Results View */}
-        {response && !isLoading && (
+        {response && !isWaitingForFirstToken && (
           <div className="space-y-6">
+            {/* Scores from a provider that could only be asked to continue the reply */}
+            {response.scoring?.approximate && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertTitle className="text-sm">Approximate scores</AlertTitle>
+                <AlertDescription className="text-xs">
+                  This provider can't continue a prefilled reply, so for each of the {response.scoring.requests} requests
+                  it was asked to continue the text instead. The probabilities are close to, but not, teacher-forced logprobs.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Uncertainty Summary */}
+            {analytics && analytics.tokens.length > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                <div
+                  className="p-2 border rounded-lg"
+                  title="2 to the power of the mean surprisal; roughly how many tokens the model was choosing between on average"
+                >
+                  <div className="text-muted-foreground">Perplexity</div>
+                  <div className="font-mono font-medium">{analytics.perplexity.toFixed(2)}</div>
+                </div>
+                <div className="p-2 border rounded-lg" title="Average −log₂ p of the generated tokens">
+                  <div className="text-muted-foreground">Mean surprisal</div>
+                  <div className="font-mono font-medium">{analytics.meanSurprisal.toFixed(2)} bits</div>
+                </div>
+                <div
+                  className="p-2 border rounded-lg"
+                  title="Average entropy of each position's returned alternatives, renormalized to sum to 1"
+                >
+                  <div className="text-muted-foreground">Mean entropy</div>
+                  <div className="font-mono font-medium">{analytics.meanEntropy.toFixed(2)} bits</div>
+                </div>
+                <div className="p-2 border rounded-lg" title="Sum of surprisal over the whole response">
+                  <div className="text-muted-foreground">Total surprisal</div>
+                  <div className="font-mono font-medium">{analytics.totalSurprisal.toFixed(1)} bits</div>
+                </div>
+              </div>
+            )}
+
             {/* Probability Color Key */}
             <div className="mb-3 p-2 border rounded-lg bg-muted/30">
               <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
@@ -170,23 +396,139 @@ export default function ResultsPanel({
               </div>
             </div>
             
-            {/* Interactive Tokens Display */}
-            <Card className="p-4">
-              <div className="font-medium whitespace-pre-wrap leading-relaxed">
-                {response.tokenProbabilities.map((tokenData, index) => (
-                  <span
+            {/* Branch Selector */}
+            {branches.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <GitBranch className="h-4 w-4 text-muted-foreground" />
+                <Button
+                  variant={activeBranchIndex === null ? "default" : "outline"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onBranchSelect?.(null)}
+                >
+                  Original
+                </Button>
+                {branches.map((branchResponse, index) => (
+                  <Button
                     key={index}
-                    className={`cursor-pointer rounded px-0.5 py-0.5 inline-block border ${
-                      getTokenColorClass(tokenData.probability)
-                    } ${selectedTokenIndex === index ? 'ring-1 ring-primary' : ''}`}
-                    onClick={() => handleTokenClick(index)}
-                    title={`${(tokenData.probability * 100).toFixed(1)}% probability`}
+                    variant={activeBranchIndex === index ? "default" : "outline"}
+                    size="sm"
+                    className="h-6 px-2 text-xs font-mono"
+                    onClick={() => onBranchSelect?.(index)}
+                    title={`Token ${branchResponse.branch.position + 1}: "${branchResponse.branch.originalToken}" → "${branchResponse.branch.token}"`}
                   >
-                    {tokenData.token}
-                  </span>
+                    #{index + 1} "{branchResponse.branch.token}"
+                  </Button>
                 ))}
               </div>
-            </Card>
+            )}
+
+            <Tabs value={activeView} onValueChange={(value) => setView(value as ResultsView)}>
+              <TabsList className="mb-2">
+                <TabsTrigger value="tokens" className="text-xs">Tokens</TabsTrigger>
+                <TabsTrigger value="chart" className="text-xs">Chart</TabsTrigger>
+                <TabsTrigger value="simulate" className="text-xs">Simulate</TabsTrigger>
+                {showTree && <TabsTrigger value="tree" className="text-xs">Tree</TabsTrigger>}
+                {onExploreContinuations && <TabsTrigger value="likely" className="text-xs">Most likely</TabsTrigger>}
+                {samples && (
+                  <TabsTrigger value="samples" className="text-xs">Samples ({samples.length})</TabsTrigger>
+                )}
+              </TabsList>
+
+              {/* Interactive Tokens Display */}
+              <TabsContent value="tokens" className="mt-0">
+                <Card className="p-4">
+                  {withBiasMenu(
+                    <div className="font-medium whitespace-pre-wrap leading-relaxed">
+                      {response.tokenProbabilities.map((tokenData, index) => (
+                        <span
+                          key={index}
+                          data-token-index={index}
+                          data-token={tokenData.token}
+                          className={`cursor-pointer rounded px-0.5 py-0.5 inline-block border ${
+                            getTokenColorClass(tokenData.probability)
+                          } ${selectedTokenIndex === index ? 'ring-1 ring-primary' : ''} ${
+                            activeBranch?.branch.position === index ? 'underline decoration-2 decoration-primary' : ''
+                          } ${divergenceIndex === index ? 'outline outline-2 outline-dashed outline-red-500' : ''}`}
+                          onClick={() => handleTokenClick(index)}
+                          title={getTokenTitle(tokenData)}
+                        >
+                          {tokenData.token}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+              </TabsContent>
+
+              {/* Probability, margin and entropy per position */}
+              <TabsContent value="chart" className="mt-0">
+                <Card className="p-4">
+                  <ProbabilityChart
+                    tokens={response.tokenProbabilities}
+                    selectedIndex={selectedTokenIndex}
+                    onSelect={(index) => {
+                      setSelectedTokenIndex(index);
+                      setView("tokens");
+                      // Wait for the token view to mount before scrolling to the token
+                      requestAnimationFrame(() => {
+                        containerRef.current
+                          ?.querySelector(`[data-token-index="${index}"]`)
+                          ?.scrollIntoView({ block: "center", behavior: "smooth" });
+                      });
+                    }}
+                  />
+                </Card>
+              </TabsContent>
+
+              {/* Re-sampling the returned distributions under other settings */}
+              <TabsContent value="simulate" className="mt-0">
+                <Card className="p-4">
+                  <SamplingSimulator
+                    tokens={response.tokenProbabilities}
+                    selectedIndex={selectedTokenIndex}
+                    onSelect={setSelectedTokenIndex}
+                  />
+                </Card>
+              </TabsContent>
+
+              {/* The original response and its branches as a tree of forking paths */}
+              {showTree && originalResponse && (
+                <TabsContent value="tree" className="mt-0">
+                  <Card className="p-4">
+                    <TokenTree
+                      prompt={request?.prompt}
+                      response={originalResponse}
+                      branches={branches}
+                      activeBranchIndex={activeBranchIndex}
+                      onBranchSelect={onBranchSelect}
+                    />
+                  </Card>
+                </TabsContent>
+              )}
+
+              {/* Beam search for the most probable short continuations */}
+              {onExploreContinuations && (
+                <TabsContent value="likely" className="mt-0">
+                  <Card className="p-4">
+                    <ContinuationsView
+                      result={continuations}
+                      isLoading={isExploring}
+                      onExplore={onExploreContinuations}
+                    />
+                  </Card>
+                </TabsContent>
+              )}
+
+              {/* Every sample of an n > 1 run */}
+              {samples && (
+                <TabsContent value="samples" className="mt-0">
+                  <Card className="p-4">
+                    <SampleStack samples={samples} />
+                  </Card>
+                </TabsContent>
+              )}
+            </Tabs>
             
             {/* Token Probability Panel (Shows when a token is clicked) */}
             {selectedTokenIndex !== null && response.tokenProbabilities[selectedTokenIndex] && (
@@ -205,49 +547,106 @@ export default function ResultsPanel({
                   </Button>
                 </div>
                 <div className="p-3">
-                  <ul className="space-y-1">
-                    {(() => {
-                      const token = response.tokenProbabilities[selectedTokenIndex];
-                      
-                      // Create array with all alternatives including the main token
-                      const allTokens = [
-                        { token: token.token, probability: token.probability },
-                        ...token.alternatives
-                      ].sort((a, b) => b.probability - a.probability);
-                      
-                      // Only show top 5 alternatives for compactness
-                      const topTokens = allTokens.slice(0, 6);
-                      
-                      return topTokens.map((alt, index) => {
-                        const percentValue = (alt.probability * 100).toFixed(1);
-                        const isSelected = alt.token === token.token;
+                  {withBiasMenu(
+                    <ul className="space-y-1 max-h-96 overflow-y-auto">
+                      {(() => {
+                        const token = response.tokenProbabilities[selectedTokenIndex];
+                        
+                        // Create array with all alternatives including the main token
+                        const allTokens = [
+                          { token: token.token, probability: token.probability },
+                          ...token.alternatives
+                        ].sort((a, b) => b.probability - a.probability);
                         
+                        return allTokens.map((alt, index) => {
+                          const percentValue = (alt.probability * 100).toFixed(1);
+                          const isSelected = alt.token === token.token;
+                          
+                          return (
+                            <li 
+                              key={index} 
+                              data-token={alt.token}
+                              className={`flex items-center gap-3 p-1 rounded text-sm ${
+                                isSelected ? 'bg-primary/10' : ''
+                              }`}
+                            >
+                              <div className="w-16 font-mono font-medium truncate">
+                                {isSelected ? <strong>{alt.token}</strong> : alt.token}
+                              </div>
+                              <div className="w-14 text-right text-xs text-muted-foreground">
+                                {isSelected && token.estimated ? "≤" : ""}{percentValue}%
+                              </div>
+                              <div className="flex-grow h-4 bg-muted rounded-full overflow-hidden">
+                                <div
+                                  className={`h-full rounded-full ${
+                                    isSelected ? 'bg-primary' : 'bg-primary/50'
+                                  }`}
+                                  style={{ width: `${percentValue}%` }}
+                                ></div>
+                              </div>
+                              {onBranch && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className={`h-6 w-6 ${isSelected ? 'invisible' : ''}`}
+                                  onClick={() => onBranch(selectedTokenIndex, alt.token)}
+                                  disabled={isSelected || isBranching || isLoading}
+                                  title={`What if the model picked "${alt.token}"?`}
+                                >
+                                  <GitBranch className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </li>
+                          );
+                        });
+                      })()}
+                      {(() => {
+                        // Probability left for every token outside the returned top-k
+                        const remaining = getRemainingProbability(response.tokenProbabilities[selectedTokenIndex]);
+                        if (remaining < 0.0005) return null;
+                        const percentValue = (remaining * 100).toFixed(1);
+
                         return (
-                          <li 
-                            key={index} 
-                            className={`flex items-center gap-3 p-1 rounded text-sm ${
-                              isSelected ? 'bg-primary/10' : ''
-                            }`}
+                          <li
+                            className="flex items-center gap-3 p-1 rounded text-sm text-muted-foreground"
+                            title="Probability of all tokens outside the top alternatives"
                           >
-                            <div className="w-16 font-mono font-medium truncate">
-                              {isSelected ? <strong>{alt.token}</strong> : alt.token}
-                            </div>
-                            <div className="w-14 text-right text-xs text-muted-foreground">
+                            <div className="w-16 text-xs italic truncate">(other)</div>
+                            <div className="w-14 text-right text-xs">
                               {percentValue}%
                             </div>
                             <div className="flex-grow h-4 bg-muted rounded-full overflow-hidden">
                               <div
-                                className={`h-full rounded-full ${
-                                  isSelected ? 'bg-primary' : 'bg-primary/50'
-                                }`}
+                                className="h-full rounded-full bg-muted-foreground/30"
                                 style={{ width: `${percentValue}%` }}
                               ></div>
                             </div>
+                            {onBranch && <div className="h-6 w-6" />}
                           </li>
                         );
-                      });
-                    })()}
-                  </ul>
+                      })()}
+                    </ul>
+                  )}
+                  {isBranching && (
+                    <p className="mt-2 text-xs text-muted-foreground">Generating branch...</p>
+                  )}
+                </div>
+              </Card>
+            )}
+
+            {/* Branch Comparison (Shows when a branch is selected) */}
+            {activeBranch && originalResponse && (
+              <Card className="p-3 space-y-3">
+                <h3 className="text-sm font-medium">
+                  Diverges at token {activeBranch.branch.position + 1}
+                </h3>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Original</div>
+                  <TokenRun tokens={originalResponse.tokenProbabilities.slice(activeBranch.branch.position)} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Branch #{activeBranchIndex! + 1}</div>
+                  <TokenRun tokens={activeBranch.tokenProbabilities.slice(activeBranch.branch.position)} />
                 </div>
               </Card>
             )}
@@ -256,7 +655,7 @@ export default function ResultsPanel({
       </div>
 
       {/* Bottom Controls */}
-      {response && (
+      {response && !isLoading && (
         <div className="flex justify-between mt-4 pt-2 border-t border-muted text-xs">
           <Button
             variant="ghost"
@@ -267,7 +666,71 @@ export default function ResultsPanel({
             <Clipboard className="mr-1 h-3 w-3" />
             Copy
           </Button>
-          <div className="flex gap-3">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground hover:text-primary text-xs py-1 h-auto"
+              >
+                <Download className="mr-1 h-3 w-3" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {request && originalResponse && (
+                <>
+                  <DropdownMenuItem onClick={exportRun}>
+                    Run (JSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                </>
+              )}
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                {activeBranch ? `Tokens of branch #${activeBranchIndex! + 1}` : "Tokens"}
+              </DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => exportTokens("csv")}>
+                Token table (CSV)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportTokens("jsonl")}>
+                Token table (JSONL)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onAddToConversation && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:text-primary text-xs py-1 h-auto"
+              onClick={() => onAddToConversation(response)}
+              title="Add the prompt and this response to the conversation, keeping its token probabilities"
+            >
+              <MessageSquarePlus className="mr-1 h-3 w-3" />
+              Add to chat
+            </Button>
+          )}
+          {onShare && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:text-primary text-xs py-1 h-auto"
+              onClick={onShare}
+              title="Create a read-only link to this run"
+            >
+              <Share2 className="mr-1 h-3 w-3" />
+              Share
+            </Button>
+          )}
+          <div className="flex gap-3 ml-auto">
+            {(response.seed !== undefined || response.systemFingerprint) && (
+              <div
+                className="flex items-center gap-1 text-muted-foreground font-mono"
+                title="Seed and system fingerprint: runs with the same seed and fingerprint should be reproducible"
+              >
+                {response.seed !== undefined && <span>seed {response.seed}</span>}
+                {response.systemFingerprint && <span>{response.systemFingerprint}</span>}
+              </div>
+            )}
             <div className="flex items-center gap-1">
               <Clock className="h-3 w-3 text-muted-foreground" />
               <span className="text-muted-foreground">
@@ -0,0 +1,86 @@
+import { DragEvent, ReactNode, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { FileUp } from "lucide-react";
+import { parseRunExport } from "@/lib/export";
+import { RunExport } from "@shared/schema";
+
+interface RunDropZoneProps {
+  onImport: (run: RunExport) => void;
+  children: ReactNode;
+}
+
+const hasFiles = (e: DragEvent) => e.dataTransfer.types.includes("Files");
+
+// Accepts an exported run file (see runExportSchema) dropped anywhere on its
+// children, and hands it over once it validates; nothing is sent to the server
+export default function RunDropZone({ onImport, children }: RunDropZoneProps) {
+  const { toast } = useToast();
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  // dragenter/dragleave fire for every child crossed, so count the nesting
+  const depthRef = useRef<number>(0);
+
+  const handleDragEnter = (e: DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    depthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent) => {
+    if (!hasFiles(e)) return;
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDrop = async (e: DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    depthRef.current = 0;
+    setIsDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    try {
+      const run = parseRunExport(await file.text());
+      onImport(run);
+      toast({
+        title: "Run Opened",
+        description: `Loaded ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : `Could not open ${file.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/5 pointer-events-none">
+          <div className="flex items-center gap-2 rounded-md bg-background px-4 py-2 text-sm font-medium text-primary shadow">
+            <FileUp className="h-4 w-4" />
+            Drop a run file to open it
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import ResultsPanel from "@/components/ResultsPanel";
+import { SharedRunSnapshot, samplingParamsSchema } from "@shared/schema";
+
+interface RunSnapshotViewProps {
+  run: SharedRunSnapshot;
+}
+
+// Labels for the settings listed next to the run
+const settingLabels: Record<string, string> = {
+  temperature: "Temperature",
+  maxTokens: "Max tokens",
+  topLogprobs: "Alternatives",
+  n: "Samples",
+  topP: "Top P",
+  frequencyPenalty: "Frequency penalty",
+  presencePenalty: "Presence penalty",
+  seed: "Seed",
+  stop: "Stop sequences",
+  logitBias: "Logit bias",
+};
+
+// Read-only view of a saved run, for shared links and opened run files.
+// Tokens, alternatives, charts and branches can all be explored, but nothing
+// is generated.
+export default function RunSnapshotView({ run: { request, response, branches } }: RunSnapshotViewProps) {
+  const [tokenViewEnabled, setTokenViewEnabled] = useState<boolean>(true);
+  const [activeBranchIndex, setActiveBranchIndex] = useState<number | null>(null);
+
+  const settings = Object.entries({
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    topLogprobs: request.topLogprobs,
+    n: request.n,
+    ...samplingParamsSchema.parse(request),
+  }).filter(([, value]) => value !== undefined);
+
+  return (
+    <main className="flex flex-col lg:flex-row gap-8">
+      <Card className="flex-1 p-4 max-w-full lg:max-w-[35%] space-y-4">
+        {request.messages && request.messages.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-2">Conversation</div>
+            <div className="space-y-2">
+              {request.messages.map((message, index) => (
+                <div key={index} className="border rounded-md p-2 text-sm">
+                  <div className="text-xs text-muted-foreground capitalize mb-1">{message.role}</div>
+                  <div className="whitespace-pre-wrap">{message.content}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-sm font-medium mb-2">Prompt</div>
+          <div className="border rounded-md p-2 text-sm whitespace-pre-wrap bg-muted/10">{request.prompt}</div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Settings</div>
+          <table className="w-full text-xs">
+            <tbody>
+              <tr className="border-t">
+                <td className="py-1 text-muted-foreground">Model</td>
+                <td className="py-1 font-mono">{response.model} ({response.provider})</td>
+              </tr>
+              {settings.map(([key, value]) => (
+                <tr key={key} className="border-t">
+                  <td className="py-1 text-muted-foreground">{settingLabels[key] ?? key}</td>
+                  <td className="py-1 font-mono break-all">
+                    {typeof value === "object" ? JSON.stringify(value) : String(value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <ResultsPanel
+        response={response}
+        tokenViewEnabled={tokenViewEnabled}
+        isLoading={false}
+        onTokenViewToggle={setTokenViewEnabled}
+        branches={branches}
+        activeBranchIndex={activeBranchIndex}
+        onBranchSelect={setActiveBranchIndex}
+        request={request}
+      />
+    </main>
+  );
+}
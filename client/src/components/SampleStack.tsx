@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { findDivergence, getTokenColorClass } from "@/lib/utils";
+import { CompletionSample } from "@shared/schema";
+
+interface SampleStackProps {
+  samples: CompletionSample[];
+}
+
+// Positions where the samples don't all have the same token, counting a
+// sample that already ended as disagreeing
+function findDivergentPositions(samples: CompletionSample[]): Set<number> {
+  const longest = Math.max(0, ...samples.map((sample) => sample.tokenProbabilities.length));
+  const positions = new Set<number>();
+  for (let position = 0; position < longest; position++) {
+    const tokens = new Set(samples.map((sample) => sample.tokenProbabilities[position]?.token));
+    if (tokens.size > 1) {
+      positions.add(position);
+    }
+  }
+  return positions;
+}
+
+// Several completions of the same request, one per row, with the positions
+// where they disagree outlined, and how often each distinct text came up
+export default function SampleStack({ samples }: SampleStackProps) {
+  const divergenceIndex = useMemo(() => findDivergence(samples), [samples]);
+  const divergentPositions = useMemo(() => findDivergentPositions(samples), [samples]);
+
+  const frequencies = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const sample of samples) {
+      counts.set(sample.text, (counts.get(sample.text) ?? 0) + 1);
+    }
+    return Array.from(counts, ([text, count]) => ({ text, count })).sort((a, b) => b.count - a.count);
+  }, [samples]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {divergenceIndex === null
+          ? `All ${samples.length} samples are identical.`
+          : `The samples agree on the first ${divergenceIndex} token${divergenceIndex === 1 ? "" : "s"}, then diverge; ` +
+            `${frequencies.length} of ${samples.length} are distinct.`}
+      </p>
+
+      {/* Samples stacked, token positions lined up by index */}
+      <div className="space-y-2">
+        {samples.map((sample, sampleIndex) => (
+          <div key={sampleIndex} className="flex gap-2 border rounded-md p-2">
+            <span className="text-xs text-muted-foreground w-6 shrink-0 pt-1">#{sampleIndex + 1}</span>
+            <div className="font-medium whitespace-pre-wrap leading-relaxed text-sm">
+              {sample.tokenProbabilities.map((tokenData, index) => (
+                <span
+                  key={index}
+                  className={`rounded px-0.5 py-0.5 inline-block border ${getTokenColorClass(tokenData.probability)} ${
+                    divergentPositions.has(index) ? "outline outline-dashed outline-red-500" : ""
+                  } ${divergenceIndex === index ? "outline-2" : "outline-1"}`}
+                  title={`Token ${index + 1}: ${(tokenData.probability * 100).toFixed(2)}%`}
+                >
+                  {tokenData.token}
+                </span>
+              ))}
+              {sample.finishReason === "length" && <span className="text-xs text-muted-foreground"> …</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Distinct completions, most frequent first */}
+      <div>
+        <h3 className="text-sm font-medium mb-2">Distinct completions</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground text-left">
+              <th className="font-normal pb-1 w-16">Count</th>
+              <th className="font-normal pb-1 w-16">Share</th>
+              <th className="font-normal pb-1">Text</th>
+            </tr>
+          </thead>
+          <tbody>
+            {frequencies.map(({ text, count }) => (
+              <tr key={text} className="border-t align-top">
+                <td className="py-1 font-medium">{count}</td>
+                <td className="py-1 text-muted-foreground">{((count / samples.length) * 100).toFixed(0)}%</td>
+                <td className="py-1 whitespace-pre-wrap">{text || <span className="text-muted-foreground">(empty)</span>}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
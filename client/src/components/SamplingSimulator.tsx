@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Dices, Info } from "lucide-react";
+import { getTokenColorClass } from "@/lib/utils";
+import { SamplingSettings, sampleToken, simulateDistribution } from "@/lib/sampling";
+import { TokenProbability } from "@shared/schema";
+
+interface SamplingSimulatorProps {
+  tokens: TokenProbability[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+// Simulated samples drawn at once, and the delay between revealed tokens
+const SAMPLE_COUNT = 3;
+const REVEAL_DELAY_MS = 40;
+
+const defaultSettings: SamplingSettings = { temperature: 1, topP: 1, topK: 0 };
+
+export default function SamplingSimulator({ tokens, selectedIndex, onSelect }: SamplingSimulatorProps) {
+  const [settings, setSettings] = useState<SamplingSettings>(defaultSettings);
+  const [samples, setSamples] = useState<string[][]>([]);
+  const [revealed, setRevealed] = useState<number>(0);
+
+  const distributions = useMemo(
+    () => tokens.map((tokenData) => simulateDistribution(tokenData, settings)),
+    [tokens, settings]
+  );
+
+  // How the text that was actually generated fares under the simulated settings
+  const chosen = distributions.map((distribution, index) =>
+    distribution.find((candidate) => candidate.token === tokens[index].token)!
+  );
+  const excludedCount = chosen.filter((candidate) => candidate.simulated === 0).length;
+  const nonGreedyCount = distributions.filter((distribution, index) => distribution[0].token !== tokens[index].token).length;
+
+  // Samples are stale once the settings or the response change
+  useEffect(() => {
+    setSamples([]);
+  }, [distributions]);
+
+  // Reveal the samples a token at a time
+  useEffect(() => {
+    if (samples.length === 0 || revealed >= tokens.length) return;
+    const timer = setTimeout(() => setRevealed((count) => count + 1), REVEAL_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [samples, revealed, tokens.length]);
+
+  const drawSamples = () => {
+    setSamples(Array.from({ length: SAMPLE_COUNT }, () => distributions.map((distribution) => sampleToken(distribution))));
+    setRevealed(0);
+  };
+
+  const updateSetting = (key: keyof SamplingSettings, value: number) => {
+    setSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const selected = selectedIndex !== null ? distributions[selectedIndex] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertTitle className="text-sm">Approximation</AlertTitle>
+        <AlertDescription className="text-xs">
+          Each position's top {tokens[0] ? tokens[0].alternatives.length + 1 : 0} candidates are treated as the whole
+          distribution and taken to be at temperature 1. Samples draw every position independently, although after a
+          different pick the model would really have seen a different context. No API calls are made.
+        </AlertDescription>
+      </Alert>
+
+      {/* Simulated settings */}
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="flex justify-between mb-1 text-xs">
+            <span className="text-muted-foreground">Temperature</span>
+            <span className="font-medium">{settings.temperature}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[settings.temperature]}
+            onValueChange={(values) => updateSetting("temperature", values[0])}
+          />
+        </div>
+        <div>
+          <div className="flex justify-between mb-1 text-xs">
+            <span className="text-muted-foreground">Top P</span>
+            <span className="font-medium">{settings.topP === 1 ? "off" : settings.topP}</span>
+          </div>
+          <Slider
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={[settings.topP]}
+            onValueChange={(values) => updateSetting("topP", values[0])}
+          />
+        </div>
+        <div>
+          <div className="flex justify-between mb-1 text-xs">
+            <span className="text-muted-foreground">Top K</span>
+            <span className="font-medium">{settings.topK === 0 ? "off" : settings.topK}</span>
+          </div>
+          <Slider
+            min={0}
+            max={20}
+            step={1}
+            value={[settings.topK]}
+            onValueChange={(values) => updateSetting("topK", values[0])}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        The model picked a token other than the most likely one at {nonGreedyCount} of {tokens.length} positions
+        (greedy decoding would differ there).
+        {excludedCount > 0 && ` ${excludedCount} of the picked tokens could not be sampled at all under these settings.`}
+      </p>
+
+      {/* The generated text, colored by each token's simulated probability */}
+      <div className="font-medium whitespace-pre-wrap leading-relaxed">
+        {tokens.map((tokenData, index) => {
+          const candidate = chosen[index];
+          const greedy = distributions[index][0].token;
+          return (
+            <span
+              key={index}
+              className={`cursor-pointer rounded px-0.5 py-0.5 inline-block border ${getTokenColorClass(candidate.simulated)} ${
+                selectedIndex === index ? "ring-1 ring-primary" : ""
+              } ${candidate.simulated === 0 ? "line-through text-red-700" : ""} ${
+                greedy !== tokenData.token ? "underline decoration-dotted" : ""
+              }`}
+              onClick={() => onSelect(index)}
+              title={
+                `${(candidate.original * 100).toFixed(1)}% → ${(candidate.simulated * 100).toFixed(1)}%` +
+                (greedy !== tokenData.token ? `\nGreedy pick: ${JSON.stringify(greedy)}` : "")
+              }
+            >
+              {tokenData.token}
+            </span>
+          );
+        })}
+      </div>
+
+      {/* Selected position: returned vs. simulated probabilities */}
+      {selected && (
+        <div className="border rounded-lg p-3">
+          <h3 className="text-sm font-medium mb-2">Position {selectedIndex! + 1}: returned → simulated</h3>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {selected.map((candidate, index) => (
+              <li
+                key={index}
+                className={`flex items-center gap-3 text-sm ${candidate.token === tokens[selectedIndex!].token ? "font-semibold" : ""}`}
+              >
+                <div className="w-16 font-mono truncate">{candidate.token}</div>
+                <div className="w-28 text-right text-xs text-muted-foreground">
+                  {(candidate.original * 100).toFixed(1)}% → {(candidate.simulated * 100).toFixed(1)}%
+                </div>
+                <div className="flex-grow h-4 bg-muted rounded-full overflow-hidden relative">
+                  <div className="absolute inset-y-0 left-0 bg-primary/25" style={{ width: `${candidate.original * 100}%` }} />
+                  <div className="absolute inset-y-1 left-0 bg-primary rounded-full" style={{ width: `${candidate.simulated * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Simulated samples */}
+      <div className="space-y-2">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={drawSamples} disabled={tokens.length === 0}>
+          <Dices className="mr-1 h-3 w-3" />
+          {samples.length > 0 ? "Resample" : `Draw ${SAMPLE_COUNT} samples`}
+        </Button>
+        {samples.map((sample, sampleIndex) => (
+          <div key={sampleIndex} className="border rounded-md p-2 text-sm whitespace-pre-wrap leading-relaxed">
+            <span className="text-xs text-muted-foreground mr-2">#{sampleIndex + 1}</span>
+            {sample.slice(0, revealed).map((token, index) => (
+              <span
+                key={index}
+                className={token !== tokens[index].token ? "bg-amber-100 rounded" : ""}
+                title={token !== tokens[index].token ? `Original: ${JSON.stringify(tokens[index].token)}` : undefined}
+              >
+                {token}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Clipboard, Link } from "lucide-react";
+import { BranchResponse, SharedRun } from "@shared/schema";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The saved run to share; the server snapshots it from the history
+  historyId: number;
+  branches: BranchResponse[];
+}
+
+// Stores a snapshot of a saved run on the server and shows its /r/:id permalink
+export default function ShareDialog({ open, onOpenChange, historyId, branches }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [isPublic, setIsPublic] = useState<boolean>(false);
+  const [link, setLink] = useState<string | null>(null);
+
+  // A new run, or new branches, need a new link
+  useEffect(() => {
+    setLink(null);
+  }, [historyId, branches]);
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/shares", { historyId, isPublic });
+      return res.json() as Promise<SharedRun>;
+    },
+    onSuccess: (share) => {
+      setLink(`${window.location.origin}/r/${share.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Share Error",
+        description: error.message || "Could not create a link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = () => {
+    if (!link) return;
+    navigator.clipboard.writeText(link).then(() => {
+      toast({
+        title: "Copied",
+        description: "Link copied to clipboard",
+      });
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share this run</DialogTitle>
+          <DialogDescription>
+            The link opens a read-only copy of the prompt, settings and token probabilities
+            {branches.length > 0 ? `, with its ${branches.length} branch${branches.length === 1 ? "" : "es"}` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="sharePublic" className="text-sm">
+            Anyone with the link can view it without logging in
+          </Label>
+          <Switch
+            id="sharePublic"
+            checked={isPublic}
+            onCheckedChange={(checked) => {
+              setIsPublic(checked);
+              setLink(null);
+            }}
+            disabled={shareMutation.isPending}
+          />
+        </div>
+
+        {link && (
+          <div className="flex gap-2">
+            <Input value={link} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyLink} title="Copy link">
+              <Clipboard className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => shareMutation.mutate()} disabled={shareMutation.isPending || link !== null}>
+            <Link className="mr-1 h-4 w-4" />
+            {shareMutation.isPending ? "Creating..." : "Create link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
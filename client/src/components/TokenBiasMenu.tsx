@@ -0,0 +1,68 @@
+import { ReactNode, useState } from "react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Ban, TrendingDown, TrendingUp } from "lucide-react";
+
+export type BiasAction = "ban" | "suppress" | "boost";
+
+// logit_bias value applied by each action
+export const biasPresets: Record<BiasAction, number> = {
+  ban: -100,
+  suppress: -5,
+  boost: 5,
+};
+
+interface TokenBiasMenuProps {
+  onBias: (token: string, action: BiasAction) => void;
+  children: ReactNode;
+}
+
+// Right-click menu for steering the model away from or towards a token.
+// Wraps a list of elements marked with data-token, so one menu serves them all.
+export default function TokenBiasMenu({ onBias, children }: TokenBiasMenuProps) {
+  const [token, setToken] = useState<string | null>(null);
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger
+        asChild
+        onContextMenu={(e) => {
+          const target = (e.target as HTMLElement).closest("[data-token]");
+          setToken(target?.getAttribute("data-token") ?? null);
+        }}
+      >
+        {children}
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-56">
+        {token === null ? (
+          <ContextMenuLabel className="text-xs font-normal text-muted-foreground">
+            Right-click a token to steer it
+          </ContextMenuLabel>
+        ) : (
+          <>
+            <ContextMenuLabel className="text-xs font-mono truncate">{JSON.stringify(token)}</ContextMenuLabel>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onBias(token, "ban")}>
+              <Ban className="mr-2 h-3 w-3" />
+              Ban ({biasPresets.ban})
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onBias(token, "suppress")}>
+              <TrendingDown className="mr-2 h-3 w-3" />
+              Suppress ({biasPresets.suppress})
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onBias(token, "boost")}>
+              <TrendingUp className="mr-2 h-3 w-3" />
+              Boost (+{biasPresets.boost})
+            </ContextMenuItem>
+          </>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
@@ -0,0 +1,138 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, Download } from "lucide-react";
+import { downloadFile, getTokenColorClass } from "@/lib/utils";
+import {
+  TokenTreeNode,
+  buildTokenTree,
+  collectNodeIds,
+  formatSequenceProbability,
+  serializeTokenTree,
+} from "@/lib/tokenTree";
+import { BranchResponse, CompletionResponse } from "@shared/schema";
+
+interface TokenTreeProps {
+  prompt?: string;
+  response: CompletionResponse;
+  branches: BranchResponse[];
+  activeBranchIndex: number | null;
+  onBranchSelect?: (index: number | null) => void;
+}
+
+// Branch index of a path, with the original response as null
+const toBranchIndex = (pathIndex: number) => (pathIndex === 0 ? null : pathIndex - 1);
+
+// The original response and every branch grown from it, as a tree of forking
+// paths. Each node is labelled with the probability of the sequence so far.
+export default function TokenTree({ prompt, response, branches, activeBranchIndex, onBranchSelect }: TokenTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const tree = useMemo(
+    () => buildTokenTree([response.tokenProbabilities, ...branches.map((branch) => branch.tokenProbabilities)]),
+    [response, branches]
+  );
+  const activePathIndex = activeBranchIndex === null ? 0 : activeBranchIndex + 1;
+
+  const toggle = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const exportTree = () => {
+    const exported = {
+      prompt: prompt ?? null,
+      model: response.model,
+      provider: response.provider,
+      tree: serializeTokenTree(tree),
+    };
+    downloadFile("token-tree.json", JSON.stringify(exported, null, 2), "application/json");
+  };
+
+  const renderNode = (node: TokenTreeNode) => {
+    const isCollapsed = collapsed.has(node.id);
+    const isActive = node.pathIndices.includes(activePathIndex);
+    return (
+      <li key={node.id}>
+        <div className="flex items-start gap-1">
+          {node.children.length > 0 ? (
+            <button
+              className="mt-1 text-muted-foreground hover:text-foreground"
+              onClick={() => toggle(node.id)}
+              title={isCollapsed ? "Expand" : "Collapse"}
+            >
+              <ChevronDown className={`h-3 w-3 transition-transform ${isCollapsed ? "-rotate-90" : ""}`} />
+            </button>
+          ) : (
+            <span className="w-3" />
+          )}
+          <button
+            className={`flex-1 text-left rounded px-1 hover:bg-muted ${
+              isActive ? "bg-muted" : ""
+            } ${isActive && node.isEnd ? "ring-1 ring-primary" : ""}`}
+            // Keep the shown path when it runs through the node
+            onClick={() => onBranchSelect?.(toBranchIndex(isActive ? activePathIndex : node.pathIndices[0]))}
+            title={`Tokens ${node.start + 1}–${node.start + node.tokens.length}; show this path in the token view`}
+          >
+            <span className="whitespace-pre-wrap text-sm">
+              {node.tokens.map((tokenData, index) => (
+                <span key={index} className={`rounded border px-0.5 ${getTokenColorClass(tokenData.probability)}`}>
+                  {tokenData.token}
+                </span>
+              ))}
+            </span>
+            <span className="ml-2 text-xs font-mono text-muted-foreground">
+              {formatSequenceProbability(node.cumulativeProbability)}
+            </span>
+            {isCollapsed && (
+              <span className="ml-2 text-xs text-muted-foreground">
+                +{collectNodeIds(node).length - 1} hidden
+              </span>
+            )}
+          </button>
+        </div>
+        {!isCollapsed && node.children.length > 0 && (
+          <ul className="ml-3 pl-2 border-l space-y-1 mt-1">{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {branches.length === 0
+            ? "Branch from an alternative to grow the tree."
+            : `${branches.length + 1} paths. Labels are the probability of the whole sequence up to that point.`}
+        </p>
+        <div className="flex gap-1 shrink-0">
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setCollapsed(new Set())}>
+            Expand all
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setCollapsed(new Set(tree.children.flatMap(collectNodeIds)))}
+          >
+            Collapse all
+          </Button>
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={exportTree}>
+            <Download className="mr-1 h-3 w-3" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      <div className="text-sm">
+        <div className="rounded bg-muted/50 px-2 py-1 mb-1 text-xs text-muted-foreground truncate" title={prompt}>
+          {prompt ? `Prompt: ${prompt}` : "Prompt"}
+        </div>
+        <ul className="space-y-1">{tree.children.map(renderNode)}</ul>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
-import { OpenAIRequest } from '@shared/schema';
+import {
+  CompletionResponse,
+  CompletionStreamEvent,
+  OpenAIRequest,
+  PublicUser,
+  TokenProbability,
+} from '@shared/schema';
 
-// API for verifying passkey
-export async function verifyPasskey(passkey: string) {
-  const response = await fetch('/api/verify-passkey', {
+// Send account credentials, throwing the server's message on failure
+async function postCredentials(url: string, body: Record<string, string | undefined>) {
+  const response = await fetch(url, {
     method: 'POST',
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ passkey }),
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
@@ -23,7 +30,25 @@ export async function verifyPasskey(passkey: string) {
     throw new Error(errorMessage);
   }
 
-  return response.json();
+  return response.json() as Promise<PublicUser>;
+}
+
+// API for logging in to an existing account
+export async function login(username: string, password: string) {
+  return postCredentials('/api/login', { username, password });
+}
+
+// API for creating an account (the passkey is the class code, if required)
+export async function register(username: string, password: string, passkey?: string) {
+  return postCredentials('/api/register', { username, password, passkey });
+}
+
+// API for ending the server session
+export async function logout() {
+  await fetch('/api/logout', {
+    method: 'POST',
+    credentials: 'include',
+  });
 }
 
 // API for querying OpenAI
@@ -52,6 +77,78 @@ export async function queryOpenAI(data: OpenAIRequest) {
   return response.json();
 }
 
+// API for streaming OpenAI completions token by token over Server-Sent Events.
+// Resolves with the final response, or null if the stream was aborted.
+export async function streamOpenAI(
+  data: OpenAIRequest,
+  { signal, onToken }: { signal?: AbortSignal; onToken: (token: TokenProbability) => void },
+): Promise<CompletionResponse | null> {
+  try {
+    const response = await fetch('/api/openai/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+      credentials: 'include',
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      // Try to get error message from response
+      let errorMessage;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.message || `Error: ${response.status} ${response.statusText}`;
+      } catch (e) {
+        errorMessage = `Error: ${response.status} ${response.statusText}`;
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: CompletionResponse | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // SSE messages are separated by a blank line
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        const dataLine = message.split('\n').find((line) => line.startsWith('data: '));
+        if (!dataLine) continue;
+
+        const event = JSON.parse(dataLine.slice('data: '.length)) as CompletionStreamEvent;
+        if (event.type === 'token') {
+          onToken(event.token);
+        } else if (event.type === 'done') {
+          result = event.response;
+        } else {
+          throw new Error(event.message);
+        }
+      }
+    }
+
+    if (!result) {
+      throw new Error('Stream ended before the response was complete');
+    }
+
+    return result;
+  } catch (error) {
+    if (signal?.aborted) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 // API for health check
 export async function checkHealth() {
   const response = await fetch('/api/health');
@@ -0,0 +1,116 @@
+import {
+  RUN_EXPORT_VERSION,
+  runExportSchema,
+  runSettingsSchema,
+  type BranchResponse,
+  type CompletionResponse,
+  type RunExport,
+  type RunSettings,
+  type TokenExportRow,
+  type TokenProbability,
+} from "@shared/schema";
+
+// Builders for the run files described by runExportSchema and
+// tokenExportRowSchema in shared/schema.ts
+
+// Probabilities of 0 (possible for scored tokens) are floored like the
+// surprisal in shared/analytics.ts, so every logprob is a finite number
+const toLogprob = (probability: number) => Math.log(Math.max(probability, 1e-10));
+
+// The whole run, with analytics left out since they are derived data, and the
+// history id, which only means something to the account that saved the run.
+// Parsing the settings drops the API key and history id of a full request.
+export function toRunExport(request: RunSettings, response: CompletionResponse, branches: BranchResponse[]): RunExport {
+  const { analytics: _analytics, historyId: _historyId, ...exportedResponse } = response;
+  return {
+    format: "llm-explorer-run",
+    version: RUN_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    request: runSettingsSchema.parse(request),
+    response: exportedResponse,
+    branches: branches.map(({ analytics: _branchAnalytics, ...branch }) => branch),
+  };
+}
+
+// Reads a run file back, checking it against runExportSchema (and so every
+// token against tokenProbabilitySchema). Throws an Error saying what is wrong.
+export function parseRunExport(text: string): RunExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const header = data as Partial<Pick<RunExport, "format" | "version">> | null;
+  if (header?.format !== "llm-explorer-run") {
+    throw new Error("The file is not an exported run");
+  }
+  if (header.version !== RUN_EXPORT_VERSION) {
+    throw new Error(`Run files of version ${header.version} are not supported (expected ${RUN_EXPORT_VERSION})`);
+  }
+
+  const result = runExportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid run file: ${issue.path.join(".") || "run"}: ${issue.message}`);
+  }
+  // A history id belongs to the account that saved the run, not this one
+  const { historyId: _historyId, ...response } = result.data.response;
+  return { ...result.data, response };
+}
+
+export function toTokenRows(tokens: TokenProbability[]): TokenExportRow[] {
+  return tokens.map((tokenData, position) => ({
+    position,
+    token: tokenData.token,
+    probability: tokenData.probability,
+    logprob: toLogprob(tokenData.probability),
+    estimated: tokenData.estimated ?? false,
+    alternatives: [...tokenData.alternatives]
+      .sort((a, b) => b.probability - a.probability)
+      .map((alternative, index) => ({
+        rank: index + 1,
+        token: alternative.token,
+        probability: alternative.probability,
+        logprob: toLogprob(alternative.probability),
+      })),
+  }));
+}
+
+export function toJsonl(rows: TokenExportRow[]): string {
+  return rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+}
+
+// Strings are always quoted, since tokens often start or end with spaces;
+// null leaves the cell empty. Spreadsheets run cells starting with = + - @
+// (or a tab or carriage return) as formulas, so those tokens get a leading '
+// that keeps them as text.
+type CsvValue = string | number | boolean | null;
+const csvField = (value: CsvValue) => {
+  if (value === null) return "";
+  if (typeof value !== "string") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// One line per token, with a token/probability/logprob column group for each
+// alternative rank up to the most any position has
+export function toCsv(rows: TokenExportRow[]): string {
+  const ranks = Math.max(0, ...rows.map((row) => row.alternatives.length));
+  const header = ["position", "token", "probability", "logprob", "estimated"];
+  for (let rank = 1; rank <= ranks; rank++) {
+    header.push(`alt${rank}_token`, `alt${rank}_probability`, `alt${rank}_logprob`);
+  }
+
+  const lines = rows.map((row) => {
+    const fields: CsvValue[] = [row.position, row.token, row.probability, row.logprob, row.estimated];
+    for (let rank = 1; rank <= ranks; rank++) {
+      const alternative = row.alternatives[rank - 1];
+      fields.push(alternative?.token ?? null, alternative?.probability ?? null, alternative?.logprob ?? null);
+    }
+    return fields.map(csvField).join(",");
+  });
+
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
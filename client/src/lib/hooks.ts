@@ -1,4 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  countTokens,
+  estimateTokenCount,
+  getEncodingForModel,
+  isExactEncodingForModel,
+  loadTokenizer,
+  splitTokens,
+  type EncodingName,
+  type Tokenizer,
+} from '@shared/tokenizer';
 
 // Hook for managing local storage
 export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
@@ -51,15 +61,51 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T)
   return [storedValue, setValue];
 }
 
-// Hook for calculating token count
-export function useTokenCount(text: string): number {
-  const [count, setCount] = useState(0);
-  
+// Hook for loading the tokenizer of the selected model's encoding; null
+// until the encoding has loaded, or if it failed to load
+export function useTokenizer(model: string) {
+  const encoding = getEncodingForModel(model);
+  const [tokenizer, setTokenizer] = useState<Tokenizer | null>(null);
+  const [failedEncoding, setFailedEncoding] = useState<EncodingName | null>(null);
+
   useEffect(() => {
-    // Simple approximation: 1 token ≈ 4 characters
-    const tokenCount = Math.ceil(text.length / 4);
-    setCount(tokenCount);
-  }, [text]);
-  
-  return count;
+    let cancelled = false;
+    loadTokenizer(encoding)
+      .then((loaded) => {
+        if (!cancelled) setTokenizer(loaded);
+      })
+      .catch((error) => {
+        console.warn(`Error loading the ${encoding} tokenizer:`, error);
+        if (!cancelled) setFailedEncoding(encoding);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [encoding]);
+
+  return {
+    tokenizer: tokenizer && tokenizer.encoding === encoding ? tokenizer : null,
+    encoding,
+    failed: failedEncoding === encoding,
+  };
+}
+
+// Hook for tokenizing text with the encoding of the selected model. Until the
+// encoding has loaded (or when it can't be), `tokens` is null and `count` is
+// a rough estimate.
+export function useTokens(text: string, model: string) {
+  const { tokenizer, encoding, failed } = useTokenizer(model);
+
+  const tokens = useMemo(
+    () => (tokenizer ? splitTokens(tokenizer, text) : null),
+    [tokenizer, text]
+  );
+
+  return {
+    tokens,
+    count: tokens ? countTokens(tokens) : estimateTokenCount(text),
+    encoding,
+    failed,
+    isExact: tokens !== null && isExactEncodingForModel(model),
+  };
 }
@@ -0,0 +1,72 @@
+import type { TokenProbability } from "@shared/schema";
+
+// Client-side approximation of how sampling settings reshape a position's
+// distribution. Only the top-k candidates the API returned are known, so they
+// are treated as the whole distribution, and their probabilities are taken to
+// be the model's unscaled (temperature 1) ones.
+
+export interface SamplingSettings {
+  temperature: number;
+  topP: number; // 1 keeps every candidate
+  topK: number; // 0 keeps every candidate
+}
+
+export interface SimulatedCandidate {
+  token: string;
+  original: number; // Probability as returned by the API
+  simulated: number; // Probability under the simulated settings
+}
+
+// Candidates at a position, most likely first, with their simulated
+// probabilities: temperature scaling, then top-k, then top-p, renormalized
+// at each step like the inference servers do
+export function simulateDistribution(tokenData: TokenProbability, settings: SamplingSettings): SimulatedCandidate[] {
+  const candidates = [
+    { token: tokenData.token, probability: tokenData.probability },
+    ...tokenData.alternatives,
+  ].sort((a, b) => b.probability - a.probability);
+
+  // Temperature 0 is greedy decoding: all mass on the most likely candidate
+  let weights = settings.temperature <= 0
+    ? candidates.map((_, index) => (index === 0 ? 1 : 0))
+    : candidates.map((candidate) => Math.pow(candidate.probability, 1 / settings.temperature));
+  weights = normalize(weights);
+
+  if (settings.topK > 0) {
+    weights = normalize(weights.map((weight, index) => (index < settings.topK ? weight : 0)));
+  }
+
+  if (settings.topP < 1) {
+    let cumulative = 0;
+    weights = normalize(weights.map((weight) => {
+      // Keep candidates until the kept mass reaches top-p
+      const keep = cumulative < settings.topP;
+      cumulative += weight;
+      return keep ? weight : 0;
+    }));
+  }
+
+  return candidates.map((candidate, index) => ({
+    token: candidate.token,
+    original: candidate.probability,
+    simulated: weights[index],
+  }));
+}
+
+function normalize(weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return total > 0 ? weights.map((weight) => weight / total) : weights;
+}
+
+// Draw a token from a simulated distribution
+export function sampleToken(distribution: SimulatedCandidate[], random: () => number = Math.random): string {
+  let threshold = random();
+  for (const candidate of distribution) {
+    threshold -= candidate.simulated;
+    if (threshold < 0) {
+      return candidate.token;
+    }
+  }
+  // Rounding left a sliver: fall back to the most likely candidate
+  return distribution[0]?.token ?? "";
+}
@@ -0,0 +1,105 @@
+import type { TokenProbability } from "@shared/schema";
+
+// The generation paths of a run (the original response and its branches) as
+// a tree rooted at the prompt. Paths share their nodes up to the position
+// where they fork, and runs of tokens without a fork are merged into one node.
+
+export interface TokenTreeNode {
+  id: string;
+  tokens: TokenProbability[];
+  // Position of the node's first token in the response
+  start: number;
+  // Probability of the whole sequence up to the node's last token
+  cumulativeProbability: number;
+  // Paths through this node, by index (0 is the original response)
+  pathIndices: number[];
+  // Whether a path ends at this node, rather than only passing through
+  isEnd: boolean;
+  children: TokenTreeNode[];
+}
+
+interface TrieNode {
+  token: TokenProbability;
+  pathIndices: number[];
+  isEnd: boolean;
+  children: Map<string, TrieNode>;
+}
+
+export function buildTokenTree(paths: TokenProbability[][]): TokenTreeNode {
+  const roots = new Map<string, TrieNode>();
+
+  paths.forEach((tokens, pathIndex) => {
+    let level = roots;
+    tokens.forEach((token, position) => {
+      let node = level.get(token.token);
+      if (!node) {
+        node = { token, pathIndices: [], isEnd: false, children: new Map() };
+        level.set(token.token, node);
+      }
+      node.pathIndices.push(pathIndex);
+      if (position === tokens.length - 1) {
+        node.isEnd = true;
+      }
+      level = node.children;
+    });
+  });
+
+  return {
+    id: "root",
+    tokens: [],
+    start: 0,
+    cumulativeProbability: 1,
+    pathIndices: paths.map((_, index) => index),
+    isEnd: paths.every((tokens) => tokens.length === 0),
+    children: compress(roots, 0, 1, "root"),
+  };
+}
+
+// Merge each chain of single-child nodes into one node, most likely first
+function compress(level: Map<string, TrieNode>, start: number, probability: number, parentId: string): TokenTreeNode[] {
+  return Array.from(level.values())
+    .sort((a, b) => b.token.probability - a.token.probability)
+    .map((first, index) => {
+      const tokens: TokenProbability[] = [];
+      let node = first;
+      let cumulative = probability;
+      while (true) {
+        tokens.push(node.token);
+        cumulative *= node.token.probability;
+        if (node.children.size !== 1 || node.isEnd) break;
+        node = node.children.values().next().value!;
+      }
+
+      const id = `${parentId}.${index}`;
+      return {
+        id,
+        tokens,
+        start,
+        cumulativeProbability: cumulative,
+        pathIndices: first.pathIndices,
+        isEnd: node.isEnd,
+        children: compress(node.children, start + tokens.length, cumulative, id),
+      };
+    });
+}
+
+// Every node id, for expanding or collapsing the whole tree
+export function collectNodeIds(node: TokenTreeNode): string[] {
+  return [node.id, ...node.children.flatMap(collectNodeIds)];
+}
+
+// The tree as a nested document for export
+export function serializeTokenTree(node: TokenTreeNode): object {
+  return {
+    text: node.tokens.map((token) => token.token).join(""),
+    start: node.start,
+    cumulativeProbability: node.cumulativeProbability,
+    tokens: node.tokens.map(({ token, probability }) => ({ token, probability })),
+    children: node.children.map(serializeTokenTree),
+  };
+}
+
+// Sequence probabilities get small fast: switch to scientific notation
+export function formatSequenceProbability(probability: number): string {
+  return probability >= 0.001 ? `${(probability * 100).toFixed(1)}%` : probability.toExponential(1);
+}
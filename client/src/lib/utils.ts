@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { CompletionResponse, OpenAIRequest, TokenProbability } from "@shared/schema";
+import { withAnalytics } from "@shared/analytics";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -21,10 +23,33 @@ export function formatTime(seconds: number): string {
   }
 }
 
-// Helper function to estimate token count from text
-export function estimateTokenCount(text: string): number {
-  // Simple approximation: 1 token ≈ 4 characters
-  return Math.ceil(text.length / 4);
+// Get token color based on probability
+export const getTokenColorClass = (probability: number): string => {
+  if (probability >= 0.9) return "bg-green-100 hover:bg-green-200 border-green-300"; // Very high probability
+  if (probability >= 0.7) return "bg-teal-100 hover:bg-teal-200 border-teal-300"; // High probability  
+  if (probability >= 0.5) return "bg-blue-100 hover:bg-blue-200 border-blue-300"; // Medium probability
+  if (probability >= 0.3) return "bg-yellow-100 hover:bg-yellow-200 border-yellow-300"; // Low probability
+  if (probability >= 0.1) return "bg-orange-100 hover:bg-orange-200 border-orange-300"; // Very low probability
+  return "bg-red-100 hover:bg-red-200 border-red-300"; // Extremely low probability
+};
+
+// Combine a continuation with the response it continues
+export function appendResponse(
+  response: CompletionResponse,
+  continuation: CompletionResponse
+): CompletionResponse {
+  const completionTokens = response.usage.completionTokens + continuation.usage.completionTokens;
+  return withAnalytics({
+    ...continuation,
+    text: response.text + continuation.text,
+    tokenProbabilities: [...response.tokenProbabilities, ...continuation.tokenProbabilities],
+    usage: {
+      promptTokens: response.usage.promptTokens,
+      completionTokens,
+      totalTokens: response.usage.promptTokens + completionTokens,
+    },
+    responseTime: (parseFloat(response.responseTime) + parseFloat(continuation.responseTime)).toFixed(2),
+  });
 }
 
 // Helper to debounce a function call
@@ -44,3 +69,52 @@ export function debounce<T extends (...args: any[]) => any>(
     }, delay);
   };
 }
+
+// Empty response shown while a request streams in
+export function createPendingResponse(request: OpenAIRequest): CompletionResponse {
+  return {
+    text: "",
+    tokenProbabilities: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    responseTime: "",
+    model: request.model,
+    provider: request.provider,
+    finishReason: null,
+  };
+}
+
+// Add a streamed token to the end of a response. Analytics are recomputed,
+// since an auto-continued response carries those of its earlier parts.
+export function appendToken(response: CompletionResponse, token: TokenProbability): CompletionResponse {
+  return withAnalytics({
+    ...response,
+    text: response.text + token.token,
+    tokenProbabilities: [...response.tokenProbabilities, token],
+  });
+}
+
+// First token position where the responses stop agreeing, or null when they
+// are identical. A response that ends early diverges where it ends.
+export function findDivergence(responses: Pick<CompletionResponse, "tokenProbabilities">[]): number | null {
+  if (responses.length < 2) return null;
+
+  const lengths = responses.map((response) => response.tokenProbabilities.length);
+  const shortest = Math.min(...lengths);
+  for (let position = 0; position < shortest; position++) {
+    const token = responses[0].tokenProbabilities[position].token;
+    if (responses.some((response) => response.tokenProbabilities[position].token !== token)) {
+      return position;
+    }
+  }
+  return lengths.every((length) => length === shortest) ? null : shortest;
+}
+
+// Save generated content as a file through a temporary download link
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,55 +1,189 @@
-import { useState, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { appendResponse, appendToken, createPendingResponse } from "@/lib/utils";
 import InputPanel from "@/components/InputPanel";
 import ResultsPanel from "@/components/ResultsPanel";
-import { apiRequest } from "@/lib/queryClient";
-import { verifyPasskey } from "@/lib/api";
-import { OpenAIRequest, TokenProbability } from "@shared/schema";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
+import HistorySidebar from "@/components/HistorySidebar";
+import AuthCard from "@/components/AuthCard";
+import { BiasAction, biasPresets } from "@/components/TokenBiasMenu";
+import ComparisonView, { ComparisonConfig } from "@/components/ComparisonView";
+import { ContinuationsOptions } from "@/components/ContinuationsView";
+import ShareDialog from "@/components/ShareDialog";
+import RunDropZone from "@/components/RunDropZone";
+import RunSnapshotView from "@/components/RunSnapshotView";
 import { Button } from "@/components/ui/button";
-
-// Response type from the server
-type OpenAIResponse = {
-  text: string;
-  tokenProbabilities: TokenProbability[];
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  responseTime: string;
-  model: string;
-};
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { logout, streamOpenAI } from "@/lib/api";
+import {
+  BranchRequest,
+  BranchResponse,
+  ChatTurn,
+  CompletionResponse,
+  ContinuationsRequest,
+  ContinuationsResponse,
+  HistoryEntry,
+  OpenAIRequest,
+  ProviderId,
+  ProviderInfo,
+  PublicUser,
+  RunExport,
+  SamplingParams,
+  ScoreRequest,
+  TokenLookupResponse,
+  samplingParamsSchema,
+} from "@shared/schema";
 
 export default function Home() {
   const { toast } = useToast();
   
-  // Authentication state
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [passkey, setPasskey] = useState<string>("");
+  // Authentication state: the server session is the source of truth, and an
+  // expired session shows up as a 401, which this query turns into null
+  const { data: user, isLoading: isSessionLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const isAuthenticated = Boolean(user);
   
   // Application state
   const [prompt, setPrompt] = useState<string>("");
+  // Conversation turns sent before the prompt
+  const [messages, setMessages] = useState<ChatTurn[]>([]);
+  const [provider, setProvider] = useState<ProviderId>("openai");
   const [model, setModel] = useState<string>("gpt-3.5-turbo");
   const [temperature, setTemperature] = useState<number>(0.7);
   const [maxTokens, setMaxTokens] = useState<number>(150);
+  const [topLogprobs, setTopLogprobs] = useState<number>(5);
+  // Completions per run; more than one is requested without streaming
+  const [sampleCount, setSampleCount] = useState<number>(1);
+  const [samplingParams, setSamplingParams] = useState<SamplingParams>({});
   const [tokenViewEnabled, setTokenViewEnabled] = useState<boolean>(true);
-  const [autoContinueEnabled, setAutoContinueEnabled] = useState<boolean>(true);
-  const [response, setResponse] = useState<OpenAIResponse | null>(null);
+  // Off by default, so a run stops at Max Tokens unless asked to go further
+  const [autoContinueEnabled, setAutoContinueEnabled] = useState<boolean>(false);
+  const [autoContinueBudget, setAutoContinueBudget] = useState<number>(1000);
+  const [response, setResponse] = useState<CompletionResponse | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Read by the generation loop, so toggling mid-run takes effect
+  const autoContinueRef = useRef(autoContinueEnabled);
+  const autoContinueBudgetRef = useRef(autoContinueBudget);
+  autoContinueRef.current = autoContinueEnabled;
+  autoContinueBudgetRef.current = autoContinueBudget;
+  // Settings of the run being shown, so branches use the same model and settings
+  const [lastRequest, setLastRequest] = useState<OpenAIRequest | null>(null);
+  const [branches, setBranches] = useState<BranchResponse[]>([]);
+  const [activeBranchIndex, setActiveBranchIndex] = useState<number | null>(null);
+  // Most likely continuations found for the shown run's prompt
+  const [continuations, setContinuations] = useState<ContinuationsResponse | null>(null);
+  const [shareOpen, setShareOpen] = useState<boolean>(false);
+  // A run file opened before logging in, shown read-only
+  const [importedRun, setImportedRun] = useState<RunExport | null>(null);
+  // Compare mode: the same prompt sent to several model/temperature configurations
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [comparisons, setComparisons] = useState<ComparisonConfig[]>([]);
+  const [comparisonResponses, setComparisonResponses] = useState<(CompletionResponse | null)[]>([]);
+  // Score mode: probabilities of a given completion instead of a generated one
+  const [scoreMode, setScoreMode] = useState<boolean>(false);
+  const [completion, setCompletion] = useState<string>("");
+
+  // Providers configured on the server, used to populate the model dropdown
+  const { data: providersData } = useQuery<{ providers: ProviderInfo[]; maxScoredTokens: number }>({
+    queryKey: ["/api/providers"],
+    enabled: isAuthenticated,
+  });
+
+  // Fall back to the first available model when the current one isn't offered
+  useEffect(() => {
+    const providers = providersData?.providers;
+    if (!providers || providers.length === 0) return;
+
+    const isAvailable = providers.some(
+      (info) => info.id === provider && info.models.some((m) => m.id === model)
+    );
+    const fallback = providers.find((info) => info.models.length > 0);
+    if (!isAvailable && fallback) {
+      setProvider(fallback.id);
+      setModel(fallback.models[0].id);
+    }
+  }, [providersData, provider, model]);
 
-  // API mutation
+  // API mutation: streams tokens into the response as they are generated
   const mutation = useMutation({
     mutationFn: async (data: OpenAIRequest) => {
-      const res = await apiRequest("POST", "/api/openai", data);
-      return res.json() as Promise<OpenAIResponse>;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const startTime = Date.now();
+      // Opening a run file replaces the controller, and the response with it
+      const isSuperseded = () => abortControllerRef.current !== controller;
+
+      setLastRequest(data);
+      setBranches([]);
+      setActiveBranchIndex(null);
+      setContinuations(null);
+      setResponse(createPendingResponse(data));
+
+      // Several samples come back together from the non-streaming endpoint
+      if ((data.n ?? 1) > 1) {
+        const res = await apiRequest("POST", "/api/openai", data);
+        const result = (await res.json()) as CompletionResponse;
+        return isSuperseded() ? null : result;
+      }
+
+      let request = data;
+      let combined: CompletionResponse | null = null;
+
+      while (true) {
+        const result = await streamOpenAI(request, {
+          signal: controller.signal,
+          onToken: (token) => {
+            if (isSuperseded()) return;
+            setResponse((prev) => prev && appendToken(prev, token));
+          },
+        });
+
+        if (isSuperseded()) {
+          return null;
+        }
+
+        // Stopped early: keep the partial response, with what we know about it
+        if (!result) {
+          setResponse((prev) => prev && {
+            ...prev,
+            usage: { ...prev.usage, completionTokens: prev.tokenProbabilities.length },
+            responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+          });
+          return null;
+        }
+
+        combined = combined ? appendResponse(combined, result) : result;
+        setResponse(combined);
+
+        // Resubmit while the model was cut off by maxTokens, within the budget
+        const generated = combined.tokenProbabilities.length;
+        const budget = autoContinueBudgetRef.current;
+        if (!autoContinueRef.current || result.finishReason !== "length" || generated >= budget) {
+          return combined;
+        }
+
+        request = {
+          ...data,
+          assistantPrefix: (data.assistantPrefix ?? "") + combined.text,
+          maxTokens: Math.min(data.maxTokens, budget - generated),
+          historyId: combined.historyId,
+        };
+      }
     },
     onSuccess: (data) => {
-      setResponse(data);
+      if (data) {
+        setResponse(data);
+      }
+    },
+    onSettled: () => {
+      abortControllerRef.current = null;
+      queryClient.invalidateQueries({ queryKey: ["/api/history"] });
     },
     onError: (error: Error) => {
+      recheckSession();
       toast({
         title: "API Error",
         description: error.message || "Failed to get response from OpenAI",
@@ -58,8 +192,143 @@ export default function Home() {
     },
   });
 
-  // Handle form submission
-  const handleSubmit = () => {
+  // Comparison mutation: streams every configuration in parallel, each into its own column
+  const compareMutation = useMutation({
+    mutationFn: async (requests: OpenAIRequest[]) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const startTime = Date.now();
+
+      const updateColumn = (index: number, update: (prev: CompletionResponse) => CompletionResponse) => {
+        setComparisonResponses((prev) =>
+          prev.map((response, i) => (i === index && response ? update(response) : response))
+        );
+      };
+
+      setComparisonResponses(requests.map(createPendingResponse));
+
+      await Promise.all(
+        requests.map(async (request, index) => {
+          const result = await streamOpenAI(request, {
+            signal: controller.signal,
+            onToken: (token) => updateColumn(index, (prev) => appendToken(prev, token)),
+          });
+
+          // Stopped early: keep the partial response, as the single view does
+          updateColumn(index, (prev) => result ?? {
+            ...prev,
+            usage: { ...prev.usage, completionTokens: prev.tokenProbabilities.length },
+            responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+          });
+        })
+      );
+    },
+    onSettled: () => {
+      abortControllerRef.current = null;
+      queryClient.invalidateQueries({ queryKey: ["/api/history"] });
+    },
+    onError: (error: Error) => {
+      abortControllerRef.current?.abort();
+      recheckSession();
+      toast({
+        title: "API Error",
+        description: error.message || "Failed to get responses for the comparison",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Score mutation: teacher-forced probabilities for the given completion
+  const scoreMutation = useMutation({
+    mutationFn: async (data: ScoreRequest) => {
+      const res = await apiRequest("POST", "/api/openai/score", data);
+      return res.json() as Promise<CompletionResponse>;
+    },
+    onMutate: () => {
+      setResponse(null);
+    },
+    onSuccess: (data, { completion: _, ...request }) => {
+      // Branches from a scored response continue with the same settings
+      setLastRequest(request);
+      setBranches([]);
+      setActiveBranchIndex(null);
+      setContinuations(null);
+      setResponse(data);
+    },
+    onError: (error: Error) => {
+      recheckSession();
+      toast({
+        title: "Score Error",
+        description: error.message || "Failed to score the completion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Branch mutation: regenerate from an alternative token
+  const branchMutation = useMutation({
+    mutationFn: async (data: BranchRequest) => {
+      const res = await apiRequest("POST", "/api/openai/branch", data);
+      return res.json() as Promise<BranchResponse>;
+    },
+    onSuccess: (data) => {
+      setBranches((prev) => [...prev, data]);
+      setActiveBranchIndex(branches.length);
+    },
+    onError: (error: Error) => {
+      recheckSession();
+      toast({
+        title: "Branch Error",
+        description: error.message || "Failed to generate branch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Continuations mutation: beam search over the shown run's prompt
+  const continuationsMutation = useMutation({
+    mutationFn: async (data: ContinuationsRequest) => {
+      const res = await apiRequest("POST", "/api/openai/continuations", data);
+      return res.json() as Promise<ContinuationsResponse>;
+    },
+    onSuccess: (data) => {
+      setContinuations(data);
+    },
+    onError: (error: Error) => {
+      recheckSession();
+      toast({
+        title: "Search Error",
+        description: error.message || "Failed to find likely continuations",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Search from the prompt and settings of the run being shown
+  const handleExploreContinuations = (options: ContinuationsOptions) => {
+    if (!lastRequest) return;
+    const { assistantPrefix: _prefix, historyId: _historyId, n: _n, ...request } = lastRequest;
+    continuationsMutation.mutate({ ...request, ...options });
+  };
+
+  // Branch from the response currently shown (the original or a branch)
+  const handleBranch = (position: number, alternative: string) => {
+    const source = activeBranchIndex !== null ? branches[activeBranchIndex] : response;
+    if (!source || !lastRequest) return;
+
+    branchMutation.mutate({
+      ...lastRequest,
+      tokenProbabilities: source.tokenProbabilities,
+      position,
+      alternative,
+      // Saved with the run, so its token tree can be reloaded
+      historyId: response?.historyId,
+    });
+  };
+
+  // Handle form submission. Sampling parameters can be passed in when they
+  // were just changed, since state updates only apply on the next render.
+  const handleSubmit = (params: SamplingParams = samplingParams) => {
     if (!prompt.trim()) {
       toast({
         title: "Error",
@@ -69,172 +338,438 @@ export default function Home() {
       return;
     }
 
+    // Token probabilities stay on the client; the server only needs the text
+    const turns = messages
+      .filter((message) => message.content.trim())
+      .map(({ role, content }) => ({ role, content }));
+    const conversation = turns.length > 0 ? turns : undefined;
+
+    if (scoreMode) {
+      scoreMutation.mutate({
+        prompt,
+        messages: conversation,
+        provider,
+        model,
+        temperature,
+        maxTokens,
+        topLogprobs,
+        ...params,
+        completion,
+      });
+      return;
+    }
+
+    if (compareMode) {
+      compareMutation.mutate(
+        comparisons.map((config) => ({
+          prompt,
+          messages: conversation,
+          maxTokens,
+          topLogprobs,
+          ...params,
+          ...config,
+        }))
+      );
+      return;
+    }
+
     mutation.mutate({
       prompt,
+      messages: conversation,
+      provider,
       model,
       temperature,
       maxTokens,
+      topLogprobs,
+      ...params,
+      ...(sampleCount > 1 ? { n: sampleCount } : {}),
       // apiKey is now optional and managed by the server
     });
   };
 
-  // Clear response
-  const handleClearResponse = () => {
-    setResponse(null);
-  };
+  // Steer the model from the token view: look up the token's ID in the model's
+  // encoding, add it to the logit_bias table and regenerate
+  const handleBias = async (token: string, action: BiasAction) => {
+    const biasModel = lastRequest?.model ?? model;
 
-  // Handle passkey authentication
-  const handleAuthenticate = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
     try {
-      // Use server-side verification instead of hardcoded value
-      await verifyPasskey(passkey);
-      
-      // If verification successful, set authenticated state
-      setIsAuthenticated(true);
-      localStorage.setItem("token-explorer-auth", "true"); // Store auth state
+      const res = await apiRequest("POST", "/api/tokens/lookup", { model: biasModel, tokens: [token] });
+      const lookup = (await res.json()) as TokenLookupResponse;
+      const ids = lookup.tokens[0]?.ids ?? [];
+      if (ids.length !== 1) {
+        toast({
+          title: "Can't bias this token",
+          description: `${JSON.stringify(token)} is ${ids.length} tokens in ${lookup.encoding}; logit_bias applies to single tokens`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!lookup.exact) {
+        toast({
+          title: "Approximate token ID",
+          description: `The ID comes from ${lookup.encoding}, which may not match ${biasModel}'s vocabulary`,
+        });
+      }
+
+      const next = {
+        ...samplingParams,
+        logitBias: { ...samplingParams.logitBias, [ids[0]]: biasPresets[action] },
+      };
+      setSamplingParams(next);
+      handleSubmit(next);
+    } catch (error) {
+      recheckSession();
       toast({
-        title: "Success",
-        description: "Welcome to the LLM Token Explorer!",
+        title: "Bias Error",
+        description: error instanceof Error ? error.message : "Could not look up the token",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Continue the conversation: the prompt and the response become turns
+  const handleAddToConversation = (shown: CompletionResponse) => {
+    const userPrompt = lastRequest?.prompt ?? prompt;
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: userPrompt },
+      { role: "assistant", content: shown.text, tokenProbabilities: shown.tokenProbabilities },
+    ]);
+    setPrompt("");
+  };
+
+  // Entering compare mode starts from the current model at two temperatures
+  const handleCompareModeChange = (enabled: boolean) => {
+    setCompareMode(enabled);
+    if (enabled) setScoreMode(false);
+    if (enabled && comparisons.length === 0) {
+      setComparisons([
+        { provider, model, temperature },
+        { provider, model, temperature: temperature === 0 ? 1 : 0 },
+      ]);
+    }
+  };
+
+  // Scoring shows a single response, so it leaves compare mode
+  const handleScoreModeChange = (enabled: boolean) => {
+    setScoreMode(enabled);
+    if (enabled) setCompareMode(false);
+  };
+
+  // Columns line up with the configurations, so results are cleared when they change
+  const handleComparisonsChange = (configs: ComparisonConfig[]) => {
+    setComparisons(configs);
+    setComparisonResponses([]);
+  };
+
+  // Handle model selection, which also picks the provider serving it
+  const handleModelChange = (newProvider: ProviderId, newModel: string) => {
+    setProvider(newProvider);
+    setModel(newModel);
+  };
+
+  // Reload a past run from the history, along with its settings
+  const handleHistorySelect = async (id: number) => {
+    try {
+      const res = await apiRequest("GET", `/api/history/${id}`);
+      const entry = (await res.json()) as HistoryEntry;
+
+      // A generation still streaming in would write over the saved run
+      handleStop();
+      abortControllerRef.current = null;
+
+      setPrompt(entry.prompt);
+      setMessages(entry.messages);
+      setProvider(entry.response.provider);
+      setModel(entry.model);
+      setTemperature(entry.temperature);
+      setMaxTokens(entry.maxTokens);
+      setTopLogprobs(entry.topLogprobs);
+      setSamplingParams(entry.samplingParams);
+      setLastRequest({
+        prompt: entry.prompt,
+        messages: entry.messages.length > 0 ? entry.messages : undefined,
+        provider: entry.response.provider,
+        model: entry.model,
+        temperature: entry.temperature,
+        maxTokens: entry.maxTokens,
+        topLogprobs: entry.topLogprobs,
+        ...entry.samplingParams,
       });
+      setBranches(entry.branches);
+      setActiveBranchIndex(null);
+      setContinuations(null);
+      setResponse(entry.response);
+      setCompareMode(false);
+      setScoreMode(false);
     } catch (error) {
+      recheckSession();
       toast({
-        title: "Authentication Failed",
-        description: error instanceof Error ? error.message : "Incorrect passkey. Please try again.",
+        title: "History Error",
+        description: error instanceof Error ? error.message : "Could not load this run",
         variant: "destructive",
       });
     }
   };
 
-  // Check for existing auth on component mount
-  useEffect(() => {
-    const isAuth = localStorage.getItem("token-explorer-auth") === "true";
-    if (isAuth) {
-      setIsAuthenticated(true);
+  // Show a run from an exported file as if it had just been generated, with
+  // its settings, so it can be branched or regenerated
+  const loadRun = ({ request: runRequest, response: runResponse, branches: runBranches }: RunExport) => {
+    // A generation still streaming in would write over the opened run
+    handleStop();
+    abortControllerRef.current = null;
+
+    // Runs made with a provider or model this server doesn't offer are
+    // switched to the first one it does, so they can still be branched
+    const providers = providersData?.providers ?? [];
+    const isOffered = providers.some(
+      (info) => info.id === runRequest.provider && info.models.some((m) => m.id === runRequest.model)
+    );
+    const fallback = providers.find((info) => info.models.length > 0);
+    const request = isOffered || !fallback
+      ? runRequest
+      : { ...runRequest, provider: fallback.id, model: fallback.models[0].id };
+
+    setPrompt(request.prompt);
+    setMessages(request.messages ?? []);
+    setProvider(request.provider);
+    setModel(request.model);
+    setTemperature(request.temperature);
+    setMaxTokens(request.maxTokens);
+    setTopLogprobs(request.topLogprobs);
+    setSampleCount(request.n ?? 1);
+    setSamplingParams(samplingParamsSchema.parse(request));
+    setLastRequest(request);
+    setBranches(runBranches);
+    setActiveBranchIndex(null);
+    setContinuations(null);
+    setResponse(runResponse);
+    setCompareMode(false);
+    setScoreMode(false);
+  };
+
+  // Run files can be opened without logging in, read-only
+  const handleImport = (run: RunExport) => {
+    if (isAuthenticated) {
+      loadRun(run);
+    } else {
+      setImportedRun(run);
     }
-  }, []);
+  };
+
+  // Stop an in-progress generation, aborting the upstream request
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Clear response
+  const handleClearResponse = () => {
+    setResponse(null);
+    setComparisonResponses([]);
+    setBranches([]);
+    setActiveBranchIndex(null);
+    setContinuations(null);
+  };
+
+  // Handle login or registration
+  const handleAuthenticated = (authenticatedUser: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], authenticatedUser);
+    // Carry an opened run file over into the explorer
+    if (importedRun) {
+      loadRun(importedRun);
+      setImportedRun(null);
+    }
+  };
 
   // Logout function
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem("token-explorer-auth");
-    toast({
-      title: "Logged Out",
-      description: "You have been logged out successfully.",
-    });
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } finally {
+      queryClient.setQueryData(["/api/user"], null);
+      queryClient.removeQueries({ queryKey: ["/api/history"] });
+      toast({
+        title: "Logged Out",
+        description: "You have been logged out successfully.",
+      });
+    }
+  };
+
+  // Re-check the session after a failed request, in case it expired
+  const recheckSession = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
   };
 
   return (
-    <div className="bg-gray-50 min-h-screen font-sans text-dark">
-      <div className="container mx-auto px-4 py-8 max-w-7xl">
-        {/* Header */}
-        <header className="mb-8">
-          <div className="flex items-center justify-between">
-            <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                className="h-8 w-8"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
-                />
-              </svg>
-              LLM Explorer
-            </h1>
-            <div className="flex gap-4">
-              {isAuthenticated && (
-                <>
-                  <button
-                    onClick={() => {
-                      toast({
-                        title: "LLM Explorer Help",
-                        description: "Explore token probabilities in OpenAI's language models. Type a prompt, and see not just the final response, but the probability of each token the model considered.",
-                      });
-                    }}
-                    className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary hover:bg-opacity-10 transition-colors"
+    <SidebarProvider defaultOpen={false}>
+      {isAuthenticated && (
+        <HistorySidebar
+          activeId={response?.historyId ?? null}
+          onSelect={handleHistorySelect}
+        />
+      )}
+      <div className="flex-1 bg-gray-50 min-h-screen font-sans text-dark">
+        <div className="container mx-auto px-4 py-8 max-w-7xl">
+          {/* Header */}
+          <header className="mb-8">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {isAuthenticated && <SidebarTrigger title="History" />}
+                <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-8 w-8"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
                   >
-                    HELP
-                  </button>
-                  <button
-                    onClick={handleLogout}
-                    className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
-                  >
-                    LOGOUT
-                  </button>
-                </>
-              )}
-            </div>
-          </div>
-        </header>
-
-        {/* Passkey Authentication Screen */}
-        {!isAuthenticated ? (
-          <div className="flex justify-center items-center min-h-[70vh]">
-            <Card className="w-full max-w-md p-6">
-              <CardHeader>
-                <CardTitle className="text-center text-2xl">Access Required</CardTitle>
-                <CardDescription className="text-center">
-                  Please enter the passkey to access the LLM Token Explorer
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleAuthenticate} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="passkey">Passkey</Label>
-                    <Input
-                      id="passkey"
-                      type="password"
-                      placeholder="Enter your passkey"
-                      value={passkey}
-                      onChange={(e) => setPasskey(e.target.value)}
-                      autoFocus
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
                     />
+                  </svg>
+                  LLM Explorer
+                </h1>
+              </div>
+              <div className="flex gap-4">
+                {isAuthenticated && (
+                  <>
+                    <button
+                      onClick={() => {
+                        toast({
+                          title: "LLM Explorer Help",
+                          description: "Explore token probabilities in OpenAI's language models. Type a prompt, and see not just the final response, but the probability of each token the model considered.",
+                        });
+                      }}
+                      className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary hover:bg-opacity-10 transition-colors"
+                    >
+                      HELP
+                    </button>
+                    <span className="self-center text-sm text-muted-foreground">
+                      {user?.username}
+                    </span>
+                    <button
+                      onClick={handleLogout}
+                      className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                    >
+                      LOGOUT
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </header>
+
+          {/* Authentication Screen */}
+          {isSessionLoading ? null : !isAuthenticated ? (
+            <RunDropZone onImport={handleImport}>
+              {importedRun ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>Viewing a run file. Log in to generate your own runs.</span>
+                    <Button variant="outline" size="sm" onClick={() => setImportedRun(null)}>
+                      Close
+                    </Button>
                   </div>
-                  <Button
-                    type="submit" 
-                    className="w-full"
-                  >
-                    Enter Explorer
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
-          </div>
-        ) : (
-          /* Main Content - Only shown when authenticated */
-          <main className="flex flex-col lg:flex-row gap-8">
-            <InputPanel
-              prompt={prompt}
-              model={model}
-              temperature={temperature}
-              maxTokens={maxTokens}
-              isPending={mutation.isPending}
-              onPromptChange={setPrompt}
-              onModelChange={setModel}
-              onTemperatureChange={setTemperature}
-              onMaxTokensChange={setMaxTokens}
-              onSubmit={handleSubmit}
-              onClearResponse={handleClearResponse}
-            />
+                  <RunSnapshotView key={importedRun.exportedAt} run={importedRun} />
+                </div>
+              ) : (
+                <div className="flex flex-col justify-center items-center gap-4 min-h-[70vh]">
+                  <AuthCard onAuthenticated={handleAuthenticated} />
+                  <p className="text-sm text-muted-foreground">Or drop an exported run file here to view it.</p>
+                </div>
+              )}
+            </RunDropZone>
+          ) : (
+            /* Main Content - Only shown when authenticated */
+            <RunDropZone onImport={handleImport}>
+              <main className="flex flex-col lg:flex-row gap-8">
+                <InputPanel
+                  prompt={prompt}
+                  messages={messages}
+                  provider={provider}
+                  model={model}
+                  providers={providersData?.providers ?? []}
+                  temperature={temperature}
+                  maxTokens={maxTokens}
+                  topLogprobs={topLogprobs}
+                  sampleCount={sampleCount}
+                  samplingParams={samplingParams}
+                  isPending={mutation.isPending || compareMutation.isPending || scoreMutation.isPending}
+                  onPromptChange={setPrompt}
+                  onMessagesChange={setMessages}
+                  onModelChange={handleModelChange}
+                  onTemperatureChange={setTemperature}
+                  onMaxTokensChange={setMaxTokens}
+                  onTopLogprobsChange={setTopLogprobs}
+                  onSampleCountChange={setSampleCount}
+                  onSamplingParamsChange={setSamplingParams}
+                  compareMode={compareMode}
+                  comparisons={comparisons}
+                  onCompareModeChange={handleCompareModeChange}
+                  onComparisonsChange={handleComparisonsChange}
+                  scoreMode={scoreMode}
+                  completion={completion}
+                  onScoreModeChange={handleScoreModeChange}
+                  onCompletionChange={setCompletion}
+                  maxScoredTokens={providersData?.maxScoredTokens}
+                  onSubmit={() => handleSubmit()}
+                  onClearResponse={handleClearResponse}
+                />
+
+                {compareMode ? (
+                  <ComparisonView
+                    configs={comparisons}
+                    responses={comparisonResponses}
+                    providers={providersData?.providers ?? []}
+                    tokenViewEnabled={tokenViewEnabled}
+                    isLoading={compareMutation.isPending}
+                    onTokenViewToggle={setTokenViewEnabled}
+                    onStop={handleStop}
+                  />
+                ) : (
+                  <ResultsPanel
+                    response={response}
+                    tokenViewEnabled={tokenViewEnabled}
+                    autoContinueEnabled={autoContinueEnabled}
+                    isLoading={mutation.isPending || scoreMutation.isPending}
+                    onTokenViewToggle={setTokenViewEnabled}
+                    onAutoContinueToggle={setAutoContinueEnabled}
+                    autoContinueBudget={autoContinueBudget}
+                    onAutoContinueBudgetChange={setAutoContinueBudget}
+                    onStop={scoreMutation.isPending || (mutation.variables?.n ?? 1) > 1 ? undefined : handleStop}
+                    branches={branches}
+                    activeBranchIndex={activeBranchIndex}
+                    isBranching={branchMutation.isPending}
+                    onBranch={handleBranch}
+                    onBranchSelect={setActiveBranchIndex}
+                    request={lastRequest}
+                    continuations={continuations}
+                    isExploring={continuationsMutation.isPending}
+                    onExploreContinuations={handleExploreContinuations}
+                    onShare={response?.historyId !== undefined ? () => setShareOpen(true) : undefined}
+                    onAddToConversation={handleAddToConversation}
+                    onBias={mutation.isPending || scoreMutation.isPending ? undefined : handleBias}
+                  />
+                )}
+              </main>
+            </RunDropZone>
+          )}
 
-            <ResultsPanel
-              response={response}
-              tokenViewEnabled={tokenViewEnabled}
-              autoContinueEnabled={autoContinueEnabled}
-              isLoading={mutation.isPending}
-              onTokenViewToggle={setTokenViewEnabled}
-              onAutoContinueToggle={setAutoContinueEnabled}
+          {/* Only saved runs can be shared */}
+          {response?.historyId !== undefined && (
+            <ShareDialog
+              open={shareOpen}
+              onOpenChange={setShareOpen}
+              historyId={response.historyId}
+              branches={branches}
             />
-          </main>
-        )}
+          )}
+        </div>
       </div>
-    </div>
+    </SidebarProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import RunSnapshotView from "@/components/RunSnapshotView";
+import AuthCard from "@/components/AuthCard";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { PublicUser, SharedRun } from "@shared/schema";
+
+// Read-only view of a run shared by permalink (/r/:id)
+export default function SharedRunPage() {
+  const { id } = useParams<{ id: string }>();
+
+  // Private runs answer 401 to visitors who aren't logged in, which this
+  // query turns into null so they can log in first
+  const { data: share, isLoading, error } = useQuery<SharedRun | null>({
+    queryKey: [`/api/shares/${id}`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const handleAuthenticated = (user: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    queryClient.invalidateQueries({ queryKey: [`/api/shares/${id}`] });
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen font-sans text-dark">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <header className="mb-8 flex items-center justify-between">
+          <Link href="/" className="text-2xl font-bold text-primary">LLM Explorer</Link>
+          {share && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Shared run · {new Date(share.createdAt).toLocaleString()}</span>
+              <Badge variant="secondary">{share.isPublic ? "Public" : "Members only"}</Badge>
+            </div>
+          )}
+        </header>
+
+        {isLoading ? null : error ? (
+          <Card className="p-6 max-w-md mx-auto text-center text-sm text-muted-foreground">
+            {error.message.startsWith("404") ? "This shared run doesn't exist." : error.message}
+          </Card>
+        ) : !share ? (
+          <div className="flex flex-col items-center gap-4 min-h-[70vh] justify-center">
+            <p className="text-sm text-muted-foreground">This run is only visible to logged-in users.</p>
+            <AuthCard onAuthenticated={handleAuthenticated} />
+          </div>
+        ) : (
+          <RunSnapshotView run={share} />
+        )}
+      </div>
+    </div>
+  );
+}
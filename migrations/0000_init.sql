@@ -0,0 +1,23 @@
+CREATE TABLE "openai_responses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prompt" text NOT NULL,
+	"response" text NOT NULL,
+	"provider" text DEFAULT 'openai' NOT NULL,
+	"model" text NOT NULL,
+	"temperature" text NOT NULL,
+	"max_tokens" integer NOT NULL,
+	"prompt_tokens" integer,
+	"completion_tokens" integer,
+	"total_tokens" integer,
+	"token_probabilities" json,
+	"response_time" text,
+	"finish_reason" text,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "openai_responses" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "openai_responses" ADD CONSTRAINT "openai_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "openai_responses" ADD COLUMN "messages" json;
\ No newline at end of file
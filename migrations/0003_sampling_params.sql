@@ -0,0 +1,2 @@
+ALTER TABLE "openai_responses" ADD COLUMN "sampling_params" json;--> statement-breakpoint
+ALTER TABLE "openai_responses" ADD COLUMN "system_fingerprint" text;
\ No newline at end of file
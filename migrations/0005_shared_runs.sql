@@ -0,0 +1,9 @@
+CREATE TABLE "shared_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"is_public" boolean DEFAULT false NOT NULL,
+	"run" json NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shared_runs" ADD CONSTRAINT "shared_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
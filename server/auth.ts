@@ -0,0 +1,192 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { registerUserSchema, usernameSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// API routes reachable without a session (paths relative to /api)
+const publicApiPaths = ["/health", "/register", "/login", "/logout"];
+
+// GET routes that check the session themselves, since what they serve may be public
+const selfAuthorizedApiPaths = [/^\/shares\/[^/]+$/];
+
+const SESSION_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // one week
+
+// Passwords are stored as "<scrypt hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Never send password hashes to the client
+function toPublicUser(user: SelectUser): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+// Sessions live in Postgres when there is a database, in memory otherwise
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_MAX_AGE });
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+// Reject API requests without a logged-in user
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const selfAuthorized = req.method === "GET" && selfAuthorizedApiPaths.some((path) => path.test(req.path));
+  if (publicApiPaths.includes(req.path) || selfAuthorized || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Authentication required" });
+}
+
+export function setupAuth(app: Express) {
+  // Secure cookies behind the deployment's HTTPS proxy
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: createSessionStore(),
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(usernameSchema.parse(username));
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use("/api", requireAuth);
+
+  // Create an account. EXPLORER_PASSKEY acts as a class code that new users
+  // must know, so strangers can't sign up and spend the key. Without one,
+  // registration is closed unless ALLOW_OPEN_REGISTRATION=true opens it to all.
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password, passkey } = registerUserSchema.parse(req.body);
+
+      const requiredPasskey = process.env.EXPLORER_PASSKEY;
+      if (!requiredPasskey && process.env.ALLOW_OPEN_REGISTRATION !== "true") {
+        return res.status(403).json({ message: "Registration is closed on this server" });
+      }
+      if (requiredPasskey && passkey !== requiredPasskey) {
+        return res.status(401).json({ message: "Invalid passkey" });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: error.errors[0]?.message ?? "Invalid registration data",
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message ?? "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  // Current user; unauthenticated requests get a 401 from requireAuth
+  app.get("/api/user", (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
@@ -0,0 +1,53 @@
+import { BranchRequest, BranchResponse } from "@shared/schema";
+import { withAnalytics } from "@shared/analytics";
+import { getCompletionWithProbabilities } from "./openai";
+import { InvalidRequestError } from "./errors";
+
+// Regenerate a response as if the model had picked `alternative` at
+// `position`: the reply is prefilled with every token before that position
+// plus the alternative, and the model continues from there.
+export async function generateBranch({
+  tokenProbabilities,
+  position,
+  alternative,
+  n: _n, // A branch is a single continuation
+  historyId: _historyId, // The saved run the branch is added to, not continued
+  ...request
+}: BranchRequest): Promise<BranchResponse> {
+  const original = tokenProbabilities[position];
+  if (!original) {
+    throw new InvalidRequestError(`Position ${position} is outside the response (${tokenProbabilities.length} tokens)`);
+  }
+
+  const prefixTokens = tokenProbabilities.slice(0, position);
+  const assistantPrefix = prefixTokens.map((token) => token.token).join("") + alternative;
+
+  // The forked token keeps the original distribution, with the roles swapped
+  const substituted = {
+    token: alternative,
+    probability: original.alternatives.find((alt) => alt.token === alternative)?.probability ?? 0,
+    alternatives: [
+      { token: original.token, probability: original.probability },
+      ...original.alternatives.filter((alt) => alt.token !== alternative),
+    ].sort((a, b) => b.probability - a.probability),
+  };
+
+  const continuation = await getCompletionWithProbabilities({
+    ...request,
+    assistantPrefix,
+    // Spend what is left of the run being branched, so the branch is
+    // comparable in length; auto-continued runs can outgrow maxTokens
+    maxTokens: Math.max(1, Math.max(request.maxTokens, tokenProbabilities.length) - position - 1),
+  });
+
+  return withAnalytics({
+    ...continuation,
+    text: assistantPrefix + continuation.text,
+    tokenProbabilities: [...prefixTokens, substituted, ...continuation.tokenProbabilities],
+    branch: {
+      position,
+      token: alternative,
+      originalToken: original.token,
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import {
+  CompletionResponse,
+  ContinuationsRequest,
+  ContinuationsResponse,
+  TokenProbability,
+} from "@shared/schema";
+import { getCompletionWithProbabilities } from "./openai";
+import { mapWithConcurrency, scoreToken } from "./score";
+
+// Requests in flight at once during the search
+const CONTINUATIONS_CONCURRENCY = 4;
+
+interface Beam {
+  tokens: TokenProbability[];
+  logprob: number;
+  isGreedy: boolean;
+  // The model ended its reply, so there is nothing left to expand
+  done: boolean;
+}
+
+const toText = (tokens: TokenProbability[]) => tokens.map((token) => token.token).join("");
+
+const toLogprob = (probability: number) => Math.log(Math.max(probability, 1e-10));
+
+// Beam search for the most probable short continuations of a prompt. At each
+// of the first `depth` positions every beam is extended with the model's top
+// `width` next tokens, keeping the `count` likeliest; each beam is then
+// finished with the model's greedy continuation up to `length` tokens and
+// scored by the sum of its tokens' logprobs. The greedy beam is always kept,
+// so it can be compared with the rest.
+export async function findLikelyContinuations({
+  depth,
+  width,
+  count,
+  length,
+  ...request
+}: ContinuationsRequest): Promise<ContinuationsResponse> {
+  const startTime = Date.now();
+  let requests = 0;
+  let model = request.model;
+
+  // Requests run at temperature 0: the search reads the model's distribution
+  // and follows its most likely tokens, rather than sampling
+  const complete = async (tokens: TokenProbability[], maxTokens: number, topLogprobs: number): Promise<CompletionResponse> => {
+    requests++;
+    const result = await getCompletionWithProbabilities({
+      ...request,
+      temperature: 0,
+      assistantPrefix: tokens.length > 0 ? toText(tokens) : undefined,
+      maxTokens,
+      topLogprobs,
+    });
+    model = result.model;
+    return result;
+  };
+
+  const steps = Math.min(depth, length);
+  let beams: Beam[] = [{ tokens: [], logprob: 0, isGreedy: true, done: false }];
+
+  for (let step = 0; step < steps; step++) {
+    const expanded = await mapWithConcurrency(beams, CONTINUATIONS_CONCURRENCY, async (beam): Promise<Beam[]> => {
+      if (beam.done) {
+        return [beam];
+      }
+
+      const predicted = (await complete(beam.tokens, 1, width)).tokenProbabilities[0];
+      if (!predicted) {
+        return [{ ...beam, done: true }];
+      }
+
+      const candidates = [{ token: predicted.token, probability: predicted.probability }, ...predicted.alternatives]
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, width);
+      return candidates.map((candidate, rank) => ({
+        tokens: [...beam.tokens, scoreToken(candidate.token, predicted)],
+        logprob: beam.logprob + toLogprob(candidate.probability),
+        isGreedy: beam.isGreedy && rank === 0,
+        done: false,
+      }));
+    });
+
+    beams = expanded
+      .flat()
+      .sort((a, b) => b.logprob - a.logprob)
+      .filter((beam, index) => index < count || beam.isGreedy);
+  }
+
+  const remaining = length - steps;
+  const finished = await mapWithConcurrency(beams, CONTINUATIONS_CONCURRENCY, async (beam): Promise<Beam> => {
+    if (beam.done || remaining <= 0) {
+      return beam;
+    }
+
+    const continuation = (await complete(beam.tokens, remaining, request.topLogprobs)).tokenProbabilities;
+    return {
+      ...beam,
+      tokens: [...beam.tokens, ...continuation],
+      logprob: continuation.reduce((sum, token) => sum + toLogprob(token.probability), beam.logprob),
+    };
+  });
+
+  return {
+    continuations: finished
+      .sort((a, b) => b.logprob - a.logprob)
+      .map((beam) => ({
+        text: toText(beam.tokens),
+        tokenProbabilities: beam.tokens,
+        logprob: beam.logprob,
+        probability: Math.exp(beam.logprob),
+        isGreedy: beam.isGreedy,
+      })),
+    model,
+    provider: request.provider,
+    responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+    requests,
+  };
+}
@@ -0,0 +1,52 @@
+import path from "path";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator";
+import { PGlite } from "@electric-sql/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Pick a database from the environment:
+// - DATABASE_URL: hosted Postgres (Neon)
+// - PGLITE_DATA_DIR: embedded Postgres (PGlite) in a local directory, or
+//   "memory://" for a throwaway database
+// Either database is migrated on startup.
+// - neither: no database, storage stays in memory
+function createDatabase(): { db: Database; migrate: () => Promise<void> } | null {
+  if (process.env.DATABASE_URL) {
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    const db = drizzleNeon({ client: pool, schema });
+    return {
+      db,
+      migrate: () => migrateNeon(db, { migrationsFolder }),
+    };
+  }
+
+  if (process.env.PGLITE_DATA_DIR) {
+    const db = drizzlePglite({ client: new PGlite(process.env.PGLITE_DATA_DIR), schema });
+    return {
+      db,
+      migrate: () => migratePglite(db, { migrationsFolder }),
+    };
+  }
+
+  return null;
+}
+
+const database = createDatabase();
+
+export const db: Database | null = database?.db ?? null;
+
+// Bring the database's schema up to date before serving requests
+export async function migrateDatabase() {
+  await database?.migrate();
+}
@@ -0,0 +1,10 @@
+// A request that passed schema validation but can't be served as asked
+// (a provider this server isn't configured for, a branch position past the
+// end of the response, a completion too long to score). Completion routes
+// answer it with a 400; other errors are the server's fault.
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
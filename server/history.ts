@@ -0,0 +1,160 @@
+import {
+  BranchResponse,
+  CompletionResponse,
+  HistoryEntry,
+  HistorySummary,
+  OpenAIRequest,
+  OpenAIResponse,
+  RunSettings,
+  TokenProbability,
+  providerIdSchema,
+  samplingParamsSchema,
+} from "@shared/schema";
+import { withAnalytics } from "@shared/analytics";
+import { storage } from "./storage";
+import { resolveRequest } from "./providers";
+
+// Save a finished generation for a user. Continuations (Auto Continue) that
+// name the run they continue are appended to it instead of creating a new entry.
+export async function recordRun(
+  userId: number,
+  request: OpenAIRequest,
+  response: CompletionResponse,
+): Promise<number> {
+  if (request.historyId !== undefined && request.assistantPrefix) {
+    const existing = await storage.getResponse(request.historyId);
+    if (existing && existing.userId === userId) {
+      const completionTokens = (existing.completionTokens ?? 0) + response.usage.completionTokens;
+      await storage.updateResponse(existing.id, {
+        response: existing.response + response.text,
+        tokenProbabilities: [...(existing.tokenProbabilities ?? []), ...response.tokenProbabilities],
+        completionTokens,
+        totalTokens: (existing.promptTokens ?? 0) + completionTokens,
+        responseTime: (parseFloat(existing.responseTime ?? "0") + parseFloat(response.responseTime)).toFixed(2),
+        finishReason: response.finishReason,
+      });
+      return existing.id;
+    }
+  }
+
+  // Only the advanced parameters that were set
+  const samplingParams = samplingParamsSchema.parse(request);
+
+  const saved = await storage.saveResponse({
+    userId,
+    prompt: request.prompt,
+    messages: request.messages?.length ? request.messages : null,
+    response: response.text,
+    provider: response.provider,
+    // The model the request was resolved to (as the provider did), so the
+    // pair is one the server offers and reloading the run restores it
+    model: resolveRequest(request).model,
+    temperature: String(request.temperature),
+    maxTokens: request.maxTokens,
+    promptTokens: response.usage.promptTokens,
+    completionTokens: response.usage.completionTokens,
+    totalTokens: response.usage.totalTokens,
+    tokenProbabilities: response.tokenProbabilities,
+    samplingParams: Object.keys(samplingParams).length > 0 ? samplingParams : null,
+    systemFingerprint: response.systemFingerprint ?? null,
+    responseTime: response.responseTime,
+    finishReason: response.finishReason,
+    createdAt: new Date().toISOString(),
+  });
+  return saved.id;
+}
+
+// The saved tokens a branch forks from: the run's own response or one of its
+// recorded branches, whichever agrees with the client's tokens up to and
+// including `position`. Undefined when the run isn't the user's or no saved
+// path matches, so a branch can't graft tokens the run never had onto it.
+export async function findBranchedTokens(
+  userId: number,
+  historyId: number,
+  tokenProbabilities: TokenProbability[],
+  position: number,
+): Promise<TokenProbability[] | undefined> {
+  const existing = await storage.getResponse(historyId);
+  if (!existing || existing.userId !== userId) {
+    return undefined;
+  }
+
+  const paths = [
+    existing.tokenProbabilities ?? [],
+    ...(existing.branches ?? []).map((branch) => branch.tokenProbabilities),
+  ];
+  return paths.find((path) =>
+    path.length > position &&
+    tokenProbabilities.length > position &&
+    path.slice(0, position + 1).every((saved, index) =>
+      saved.token === tokenProbabilities[index].token &&
+      saved.probability === tokenProbabilities[index].probability
+    )
+  );
+}
+
+// Add a branch to the token tree of a user's saved run. Analytics are left
+// out, since they are recomputed when the run is loaded.
+export async function recordBranch(userId: number, historyId: number, branch: BranchResponse): Promise<boolean> {
+  const { analytics: _analytics, historyId: _historyId, ...saved } = branch;
+  return storage.appendBranch(historyId, userId, saved);
+}
+
+export function toHistorySummary(row: OpenAIResponse): HistorySummary {
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    provider: row.provider,
+    model: row.model,
+    completionTokens: row.completionTokens,
+    createdAt: row.createdAt,
+  };
+}
+
+// Rebuild the response shape the client renders from a stored row
+export function toHistoryEntry(row: OpenAIResponse): HistoryEntry {
+  const provider = providerIdSchema.safeParse(row.provider);
+  // The number of alternatives isn't stored, so it is read off the tokens
+  // (the chosen token plus its alternatives)
+  const alternatives = Math.max(0, ...(row.tokenProbabilities ?? []).map((token) => token.alternatives.length));
+
+  return {
+    ...toHistorySummary(row),
+    messages: row.messages ?? [],
+    samplingParams: row.samplingParams ?? {},
+    temperature: Number(row.temperature),
+    maxTokens: row.maxTokens,
+    topLogprobs: alternatives > 0 ? Math.min(20, alternatives + 1) : 0,
+    response: withAnalytics({
+      text: row.response,
+      tokenProbabilities: row.tokenProbabilities ?? [],
+      usage: {
+        promptTokens: row.promptTokens ?? 0,
+        completionTokens: row.completionTokens ?? 0,
+        totalTokens: row.totalTokens ?? 0,
+      },
+      responseTime: row.responseTime ?? "",
+      model: row.model,
+      provider: provider.success ? provider.data : "openai",
+      finishReason: row.finishReason,
+      historyId: row.id,
+      systemFingerprint: row.systemFingerprint,
+      seed: row.samplingParams?.seed,
+    }),
+    branches: (row.branches ?? []).map((branch) => withAnalytics(branch)),
+  };
+}
+
+// The settings a saved run was generated with
+export function toRunSettings(entry: HistoryEntry): RunSettings {
+  return {
+    prompt: entry.prompt,
+    messages: entry.messages.length > 0 ? entry.messages : undefined,
+    provider: entry.response.provider,
+    model: entry.model,
+    temperature: entry.temperature,
+    maxTokens: entry.maxTokens,
+    topLogprobs: entry.topLogprobs,
+    ...entry.samplingParams,
+  };
+}
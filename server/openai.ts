@@ -1,91 +1,85 @@
-import OpenAI from "openai";
-import { OpenAIRequest, TokenProbability } from "@shared/schema";
+import { CompletionResponse, CompletionSample, CompletionStreamEvent, OpenAIRequest } from "@shared/schema";
+import { CompletionProvider, getProvider, resolveRequest, recordFixture } from "./providers";
+import { replayAsStream } from "./providers/replay";
+import { withAnalytics } from "@shared/analytics";
+
+// Record live responses so the mock provider can replay them offline
+function maybeRecordFixture(request: OpenAIRequest, result: CompletionResponse) {
+  if (process.env.MOCK_FIXTURES_RECORD === "true" && request.provider !== "mock") {
+    recordFixture(request, result);
+  }
+}
+
+// Echo the requested seed, so a run can be reproduced from its response
+function withRequestDetails(request: OpenAIRequest, response: CompletionResponse): CompletionResponse {
+  return withAnalytics(request.seed !== undefined ? { ...response, seed: request.seed } : response);
+}
+
+function toSample({ text, tokenProbabilities, finishReason }: CompletionResponse): CompletionSample {
+  return { text, tokenProbabilities, finishReason };
+}
+
+// Sample n completions. Providers and servers without native `n` support
+// return a single choice, so the rest come from repeated requests.
+async function completeSamples(provider: CompletionProvider, request: OpenAIRequest): Promise<CompletionResponse> {
+  const n = request.n ?? 1;
+  const result = await provider.complete(request);
+  if (n <= 1) {
+    return result;
+  }
+
+  const samples = result.samples ?? [toSample(result)];
+  const missing = Math.max(0, n - samples.length);
+  const extra = await Promise.all(
+    Array.from({ length: missing }, () => provider.complete({ ...request, n: undefined }))
+  );
+
+  return {
+    ...result,
+    samples: [...samples, ...extra.map(toSample)],
+    // Every repeated request is billed in full
+    usage: extra.reduce((usage, response) => ({
+      promptTokens: usage.promptTokens + response.usage.promptTokens,
+      completionTokens: usage.completionTokens + response.usage.completionTokens,
+      totalTokens: usage.totalTokens + response.usage.totalTokens,
+    }), result.usage),
+  };
+}
+
+// Function to get completion with token probabilities from the requested provider
+export async function getCompletionWithProbabilities(request: OpenAIRequest) {
+  const resolved = resolveRequest(request);
 
-// Function to get completion with token probabilities
-export async function getCompletionWithProbabilities({
-  prompt,
-  model,
-  temperature,
-  maxTokens,
-  apiKey, // This is now optional
-}: OpenAIRequest) {
   try {
-    // Initialize OpenAI client with environment variable API key, falling back to user provided key if it exists
-    const openai = new OpenAI({ 
-      apiKey: process.env.OPENAI_API_KEY || apiKey 
-    });
-    
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    // Use gpt-4o if gpt-4 variants are selected
-    const finalModel = model.startsWith("gpt-4") ? "gpt-4o" : model;
-    
-    const startTime = Date.now();
-    
-    // Make API request with logprobs to get token probabilities
-    const response = await openai.chat.completions.create({
-      model: finalModel,
-      messages: [
-        { role: "user", content: prompt }
-      ],
-      temperature,
-      max_tokens: maxTokens,
-      logprobs: true,
-      top_logprobs: 5
-    });
-    
-    // Calculate response time
-    const responseTime = ((Date.now() - startTime) / 1000).toFixed(2);
-    
-    // Extract the completion text
-    const text = response.choices[0].message.content || "";
-    
-    // Extract token probabilities if available
-    const tokenProbabilities: TokenProbability[] = [];
-    
-    // Process logprobs data
-    if (response.choices[0].logprobs && response.choices[0].logprobs.content) {
-      const contentLogprobs = response.choices[0].logprobs.content;
-      
-      contentLogprobs.forEach((tokenLogprob) => {
-        if (tokenLogprob.top_logprobs) {
-          // Main token
-          const mainToken = tokenLogprob.token;
-          const mainProb = Math.exp(tokenLogprob.logprob);
-          
-          // Alternative tokens
-          const alternatives = tokenLogprob.top_logprobs
-            .filter(lp => lp.token !== mainToken)
-            .map(lp => ({
-              token: lp.token,
-              probability: Math.exp(lp.logprob)
-            }))
-            .sort((a, b) => b.probability - a.probability);
-          
-          tokenProbabilities.push({
-            token: mainToken,
-            probability: mainProb,
-            alternatives
-          });
-        }
-      });
-    }
-    
-    // Get usage information
-    const usage = {
-      promptTokens: response.usage?.prompt_tokens || 0,
-      completionTokens: response.usage?.completion_tokens || 0,
-      totalTokens: response.usage?.total_tokens || 0
-    };
-    
-    return {
-      text,
-      tokenProbabilities,
-      usage,
-      responseTime,
-      model: finalModel
-    };
+    const provider = getProvider(resolved.provider);
+    const result = await completeSamples(provider, resolved);
+    maybeRecordFixture(resolved, result);
+    return withRequestDetails(resolved, result);
   } catch (error) {
-    console.error("OpenAI API error:", error);
+    console.error(`Completion error (${resolved.provider}):`, error);
     throw error;
   }
 }
+
+// Stream a completion token by token. Aborting the signal cancels the
+// upstream request; providers without native streaming replay complete().
+export async function* streamCompletionWithProbabilities(
+  request: OpenAIRequest,
+  signal: AbortSignal,
+): AsyncGenerator<CompletionStreamEvent> {
+  const resolved = resolveRequest(request);
+  const provider = getProvider(resolved.provider);
+
+  const events = provider.stream
+    ? provider.stream(resolved, signal)
+    : replayAsStream(await provider.complete(resolved), signal);
+
+  for await (const event of events) {
+    if (event.type === "done") {
+      maybeRecordFixture(resolved, event.response);
+      yield { ...event, response: withRequestDetails(resolved, event.response) };
+    } else {
+      yield event;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import OpenAI from "openai";
+import {
+  OpenAIRequest,
+  CompletionResponse,
+  CompletionStreamEvent,
+  ProviderId,
+  TokenProbability,
+} from "@shared/schema";
+
+type ContentLogprobs = OpenAI.Chat.Completions.ChatCompletionTokenLogprob[];
+
+// Convert chat completion logprobs into our TokenProbability shape
+export function toTokenProbabilities(contentLogprobs: ContentLogprobs | null | undefined): TokenProbability[] {
+  const tokenProbabilities: TokenProbability[] = [];
+
+  if (!contentLogprobs) {
+    return tokenProbabilities;
+  }
+
+  contentLogprobs.forEach((tokenLogprob) => {
+    if (tokenLogprob.top_logprobs) {
+      // Main token
+      const mainToken = tokenLogprob.token;
+      const mainProb = Math.exp(tokenLogprob.logprob);
+
+      // Alternative tokens
+      const alternatives = tokenLogprob.top_logprobs
+        .filter(lp => lp.token !== mainToken)
+        .map(lp => ({
+          token: lp.token,
+          probability: Math.exp(lp.logprob)
+        }))
+        .sort((a, b) => b.probability - a.probability);
+
+      tokenProbabilities.push({
+        token: mainToken,
+        probability: mainProb,
+        alternatives
+      });
+    }
+  });
+
+  return tokenProbabilities;
+}
+
+// Instruction used to emulate prefill on APIs that always start a new turn
+const CONTINUE_INSTRUCTION =
+  "Continue your previous reply exactly where it stopped, mid-word if necessary. " +
+  "Output only the continuation, without repeating any of the earlier text.";
+
+// Request parameters shared by streaming and non-streaming completions
+function buildParams(
+  provider: ProviderId,
+  model: string,
+  {
+    prompt,
+    messages: history = [],
+    temperature,
+    maxTokens,
+    topLogprobs,
+    assistantPrefix,
+    topP,
+    frequencyPenalty,
+    presencePenalty,
+    seed,
+    stop,
+    logitBias,
+    n,
+  }: OpenAIRequest,
+) {
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    ...history.map(({ role, content }) => ({ role, content })),
+    { role: "user", content: prompt }
+  ];
+
+  // Self-hosted servers can continue the final assistant message natively
+  // (vLLM's continue_final_message; llama.cpp prefills a trailing assistant
+  // message). OpenAI always starts a new turn, so we ask it to continue.
+  const nativePrefill = provider === "openai-compatible";
+  if (assistantPrefix) {
+    messages.push({ role: "assistant", content: assistantPrefix });
+    if (!nativePrefill) {
+      messages.push({ role: "system", content: CONTINUE_INSTRUCTION });
+    }
+  }
+
+  return {
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+    logprobs: true,
+    top_logprobs: topLogprobs,
+    // Advanced sampling parameters are only sent when set, leaving the
+    // provider's defaults in place otherwise
+    ...(topP !== undefined ? { top_p: topP } : {}),
+    ...(frequencyPenalty !== undefined ? { frequency_penalty: frequencyPenalty } : {}),
+    ...(presencePenalty !== undefined ? { presence_penalty: presencePenalty } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(stop?.length ? { stop } : {}),
+    ...(logitBias && Object.keys(logitBias).length > 0 ? { logit_bias: logitBias } : {}),
+    ...(n !== undefined && n > 1 ? { n } : {}),
+    ...(assistantPrefix && nativePrefill
+      ? { continue_final_message: true, add_generation_prompt: false }
+      : {}),
+  };
+}
+
+// Run a chat completion against any endpoint that speaks the OpenAI
+// chat completions protocol (OpenAI itself, vLLM, llama.cpp server, ...)
+export async function completeChat(
+  client: OpenAI,
+  provider: ProviderId,
+  model: string,
+  request: OpenAIRequest,
+): Promise<CompletionResponse> {
+  const startTime = Date.now();
+
+  // Make API request with logprobs to get token probabilities
+  const response = await client.chat.completions.create(buildParams(provider, model, request));
+
+  // Calculate response time
+  const responseTime = ((Date.now() - startTime) / 1000).toFixed(2);
+
+  const choices = [...response.choices].sort((a, b) => a.index - b.index);
+  const choice = choices[0];
+
+  // Get usage information
+  const usage = {
+    promptTokens: response.usage?.prompt_tokens || 0,
+    completionTokens: response.usage?.completion_tokens || 0,
+    totalTokens: response.usage?.total_tokens || 0
+  };
+
+  return {
+    text: choice?.message.content || "",
+    tokenProbabilities: toTokenProbabilities(choice?.logprobs?.content),
+    usage,
+    responseTime,
+    model: response.model || model,
+    provider,
+    finishReason: choice?.finish_reason ?? null,
+    systemFingerprint: response.system_fingerprint ?? null,
+    // Servers that ignore `n` return a single choice; the caller tops it up
+    ...(choices.length > 1
+      ? {
+          samples: choices.map((sample) => ({
+            text: sample.message.content || "",
+            tokenProbabilities: toTokenProbabilities(sample.logprobs?.content),
+            finishReason: sample.finish_reason ?? null,
+          })),
+        }
+      : {}),
+  };
+}
+
+// Stream a chat completion, emitting each token with its logprobs as it arrives
+export async function* streamChat(
+  client: OpenAI,
+  provider: ProviderId,
+  model: string,
+  request: OpenAIRequest,
+  signal: AbortSignal,
+): AsyncGenerator<CompletionStreamEvent> {
+  const startTime = Date.now();
+
+  const stream = await client.chat.completions.create(
+    {
+      ...buildParams(provider, model, request),
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+    { signal }
+  );
+
+  let text = "";
+  let responseModel = model;
+  let finishReason: string | null = null;
+  let systemFingerprint: string | null = null;
+  const tokenProbabilities: TokenProbability[] = [];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  for await (const chunk of stream) {
+    responseModel = chunk.model || responseModel;
+    systemFingerprint = chunk.system_fingerprint ?? systemFingerprint;
+
+    // Only the first choice is streamed (n > 1 goes through completeChat)
+    const choice = chunk.choices.find((candidate) => candidate.index === 0);
+    if (choice) {
+      text += choice.delta.content || "";
+      finishReason = choice.finish_reason ?? finishReason;
+      for (const token of toTokenProbabilities(choice.logprobs?.content)) {
+        tokenProbabilities.push(token);
+        yield { type: "token", token };
+      }
+    }
+
+    // The final chunk carries usage and no choices
+    if (chunk.usage) {
+      usage.promptTokens = chunk.usage.prompt_tokens;
+      usage.completionTokens = chunk.usage.completion_tokens;
+      usage.totalTokens = chunk.usage.total_tokens;
+    }
+  }
+
+  yield {
+    type: "done",
+    response: {
+      text,
+      tokenProbabilities,
+      usage,
+      responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+      model: responseModel,
+      provider,
+      finishReason,
+      systemFingerprint,
+    },
+  };
+}
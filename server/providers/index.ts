@@ -0,0 +1,49 @@
+import { OpenAIRequest, ProviderId, ProviderInfo } from "@shared/schema";
+import { CompletionProvider } from "./types";
+import { InvalidRequestError } from "../errors";
+import { openaiProvider } from "./openai";
+import { openaiCompatibleProvider } from "./openai-compatible";
+import { mockProvider } from "./mock";
+
+export type { CompletionProvider } from "./types";
+export { recordFixture } from "./mock";
+
+const providers: Record<ProviderId, CompletionProvider> = {
+  "openai": openaiProvider,
+  "openai-compatible": openaiCompatibleProvider,
+  "mock": mockProvider,
+};
+
+// MOCK_COMPLETIONS=seeded|replay serves every request from the mock provider,
+// so the app can run without an API key or network access
+function getMockOverride(): string | undefined {
+  return process.env.MOCK_COMPLETIONS || undefined;
+}
+
+// Apply server-side overrides to the provider and model the client asked for
+export function resolveRequest(request: OpenAIRequest): OpenAIRequest {
+  const mockModel = getMockOverride();
+  if (mockModel) {
+    return { ...request, provider: "mock", model: mockModel };
+  }
+  return request;
+}
+
+export function getProvider(id: ProviderId): CompletionProvider {
+  const provider = providers[id];
+  if (!provider.isConfigured()) {
+    throw new InvalidRequestError(`Provider "${id}" is not configured on this server`);
+  }
+  return provider;
+}
+
+// Providers that can serve requests, for the client's model dropdown
+export function listProviders(): ProviderInfo[] {
+  if (getMockOverride()) {
+    return [mockProvider.describe()];
+  }
+
+  return Object.values(providers)
+    .filter((provider) => provider.isConfigured())
+    .map((provider) => provider.describe());
+}
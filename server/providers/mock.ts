@@ -0,0 +1,255 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  ChatMessage,
+  OpenAIRequest,
+  CompletionResponse,
+  TokenProbability,
+  chatMessageSchema,
+  completionResponseSchema,
+} from "@shared/schema";
+import { CompletionProvider } from "./types";
+import { replayAsStream } from "./replay";
+
+// Pause between streamed mock tokens, in milliseconds
+const STREAM_DELAY_MS = 30;
+
+// Offline provider for development, demos and tests. The "seeded" model
+// generates a reproducible token stream from a hash of the request; the
+// "replay" model serves responses recorded as JSON files on disk.
+
+export const mockFixtureSchema = z.object({
+  prompt: z.string(),
+  messages: z.array(chatMessageSchema).optional(),
+  assistantPrefix: z.string().optional(),
+  model: z.string().optional(),
+  response: completionResponseSchema.omit({ provider: true }),
+});
+
+export type MockFixture = z.infer<typeof mockFixtureSchema>;
+
+export function getFixturesDir() {
+  return path.resolve(process.env.MOCK_FIXTURES_DIR || "fixtures");
+}
+
+// Load every fixture in the fixtures directory, skipping invalid files
+function loadFixtures(): MockFixture[] {
+  const dir = getFixturesDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => {
+      try {
+        const raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+        return [mockFixtureSchema.parse(raw)];
+      } catch (error) {
+        console.warn(`Skipping invalid fixture ${file}:`, error);
+        return [];
+      }
+    });
+}
+
+// Save a completion so it can be replayed later by the "replay" model
+export function recordFixture(request: OpenAIRequest, response: CompletionResponse) {
+  const dir = getFixturesDir();
+  fs.mkdirSync(dir, { recursive: true });
+
+  const { provider: _provider, ...recorded } = response;
+  const fixture: MockFixture = {
+    prompt: request.prompt,
+    messages: request.messages,
+    assistantPrefix: request.assistantPrefix,
+    model: request.model,
+    response: recorded,
+  };
+  const file = path.join(dir, `${Date.now()}-${hashString(request.prompt).toString(16)}.json`);
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+}
+
+// Conversation turns as a string, for hashing and fixture matching
+function serializeMessages(messages: ChatMessage[] = []): string {
+  return JSON.stringify(messages.map(({ role, content }) => [role, content]));
+}
+
+// FNV-1a hash, used to derive a seed from the request
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast PRNG with good enough distribution for demos
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const commonWords = [
+  "the", "a", "model", "language", "token", "can", "is", "of", "to", "and",
+  "in", "that", "it", "with", "as", "for", "this", "each", "probability",
+  "next", "word", "text", "will", "be", "more", "likely", "when", "which",
+  "often", "simple", "example", "different", "between", "those", "may",
+  "also", "other", "some", "because", "learns", "patterns", "from", "data",
+];
+
+const punctuation = [".", ",", ";", "!", "?"];
+
+// Pick the main token plus a handful of plausible alternatives. Each sample
+// of an n > 1 request gets its own seed, except at temperature 0, where
+// every sample is the same greedy output.
+function generateTokens(request: OpenAIRequest, sampleIndex = 0): TokenProbability[] {
+  const sampleKey = sampleIndex > 0 && request.temperature > 0 ? `|sample ${sampleIndex}` : "";
+  const seed = hashString(
+    `${serializeMessages(request.messages)}|${request.prompt}|${request.assistantPrefix ?? ""}|${request.model}|${request.temperature}|${request.maxTokens}|${request.seed ?? ""}${sampleKey}`
+  );
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  // Mix words from the prompt into the vocabulary so output feels related
+  const promptWords = request.prompt.toLowerCase().match(/[a-z']+/g) ?? [];
+  const vocabulary = Array.from(new Set([...commonWords, ...promptWords]));
+
+  const length = Math.min(request.maxTokens, 20 + Math.floor(random() * 40));
+  const tokens: TokenProbability[] = [];
+  // A prefilled reply is continued mid-sentence
+  let sentenceStart = !request.assistantPrefix;
+  let wordsInSentence = 0;
+
+  for (let i = 0; i < length; i++) {
+    const isLast = i === length - 1;
+    const usePunctuation = isLast || (wordsInSentence >= 3 && random() < 0.15);
+
+    const candidates: string[] = usePunctuation
+      ? punctuation.slice()
+      : vocabulary.map((word) => {
+          const capitalized = sentenceStart ? word[0].toUpperCase() + word.slice(1) : word;
+          return i === 0 && !request.assistantPrefix ? capitalized : ` ${capitalized}`;
+        });
+
+    const token: string = isLast ? "." : pick(candidates);
+
+    // Higher temperatures flatten the distribution, lowering the chosen token's share
+    const confidence = Math.pow(random(), 0.4 + request.temperature);
+    const probability = 0.15 + 0.84 * confidence;
+
+    let remaining = 1 - probability;
+    const alternatives = Array.from(
+      new Set(candidates.filter((candidate) => candidate !== token))
+    )
+      .sort(() => random() - 0.5)
+      // top_logprobs counts the chosen token too
+      .slice(0, Math.max(0, request.topLogprobs - 1))
+      .map((candidate) => {
+        const share = remaining * (0.3 + 0.5 * random());
+        remaining -= share;
+        return { token: candidate, probability: share };
+      })
+      .sort((a, b) => b.probability - a.probability);
+
+    tokens.push({ token, probability, alternatives });
+    sentenceStart = [".", "!", "?"].includes(token);
+    wordsInSentence = usePunctuation ? 0 : wordsInSentence + 1;
+  }
+
+  return tokens;
+}
+
+// Like the real API, output ends before the first stop sequence
+function truncateAtStop(tokens: TokenProbability[], stop: string[] | undefined): TokenProbability[] {
+  if (!stop?.length) {
+    return tokens;
+  }
+  const stopAt = tokens.findIndex((_, i) => {
+    const text = tokens.slice(0, i + 1).map((token) => token.token).join("");
+    return stop.some((sequence) => text.includes(sequence));
+  });
+  return stopAt >= 0 ? tokens.slice(0, stopAt) : tokens;
+}
+
+export const mockProvider: CompletionProvider = {
+  id: "mock",
+
+  isConfigured() {
+    return true;
+  },
+
+  describe() {
+    return {
+      id: "mock",
+      label: "Mock (offline)",
+      models: [
+        { id: "seeded", label: "Mock: seeded random" },
+        { id: "replay", label: "Mock: replay fixtures" },
+      ],
+      nativePrefill: true,
+    };
+  },
+
+  async complete(request) {
+    const startTime = Date.now();
+
+    if (request.model === "replay") {
+      const fixtures = loadFixtures();
+      const prompt = request.prompt.trim();
+      const prefix = request.assistantPrefix ?? "";
+      const messages = serializeMessages(request.messages);
+      const fixture = fixtures.find((candidate) =>
+        candidate.prompt.trim() === prompt &&
+        (candidate.assistantPrefix ?? "") === prefix &&
+        serializeMessages(candidate.messages) === messages
+      );
+
+      if (!fixture) {
+        throw new Error(
+          `No recorded fixture matches this prompt (${fixtures.length} fixtures in ${getFixturesDir()})`
+        );
+      }
+
+      return { ...fixture.response, provider: "mock" };
+    }
+
+    const samples = Array.from({ length: request.n ?? 1 }, (_, index) => {
+      const tokenProbabilities = truncateAtStop(generateTokens(request, index), request.stop);
+      return {
+        text: tokenProbabilities.map((token) => token.token).join(""),
+        tokenProbabilities,
+        finishReason: tokenProbabilities.length >= request.maxTokens ? "length" : "stop",
+      };
+    });
+    const [first] = samples;
+    const completionTokens = samples.reduce((sum, sample) => sum + sample.tokenProbabilities.length, 0);
+    const conversationLength = (request.messages ?? []).reduce((sum, message) => sum + message.content.length, 0);
+    const promptTokens = Math.ceil((conversationLength + request.prompt.length) / 4);
+
+    return {
+      ...first,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+      model: `mock-${request.model}`,
+      provider: "mock",
+      systemFingerprint: "mock",
+      ...(samples.length > 1 ? { samples } : {}),
+    };
+  },
+
+  async *stream(request, signal) {
+    const response = await mockProvider.complete(request);
+    yield* replayAsStream(response, signal, STREAM_DELAY_MS);
+  },
+};
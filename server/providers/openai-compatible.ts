@@ -0,0 +1,55 @@
+import OpenAI from "openai";
+import { CompletionProvider } from "./types";
+import { completeChat, streamChat } from "./chat-completions";
+
+// Self-hosted servers (vLLM, llama.cpp, ...) that expose the OpenAI chat
+// completions API with logprobs. Configured entirely through the environment
+// so clients cannot point the server at arbitrary URLs.
+function getBaseUrl() {
+  return process.env.OPENAI_COMPATIBLE_BASE_URL;
+}
+
+function getModels() {
+  return (process.env.OPENAI_COMPATIBLE_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+function createClient(apiKey?: string) {
+  const baseURL = getBaseUrl();
+  if (!baseURL) {
+    throw new Error("OPENAI_COMPATIBLE_BASE_URL is not configured");
+  }
+
+  return new OpenAI({
+    baseURL,
+    // Most self-hosted servers ignore the key, but the SDK requires one
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || apiKey || "not-needed",
+  });
+}
+
+export const openaiCompatibleProvider: CompletionProvider = {
+  id: "openai-compatible",
+
+  isConfigured() {
+    return Boolean(getBaseUrl());
+  },
+
+  describe() {
+    return {
+      id: "openai-compatible",
+      label: "OpenAI-compatible",
+      models: getModels().map((model) => ({ id: model, label: model })),
+      nativePrefill: true,
+    };
+  },
+
+  async complete(request) {
+    return completeChat(createClient(request.apiKey), "openai-compatible", request.model, request);
+  },
+
+  stream(request, signal) {
+    return streamChat(createClient(request.apiKey), "openai-compatible", request.model, request, signal);
+  },
+};
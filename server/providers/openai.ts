@@ -0,0 +1,52 @@
+import OpenAI from "openai";
+import { CompletionProvider } from "./types";
+import { completeChat, streamChat } from "./chat-completions";
+
+// Initialize OpenAI client with environment variable API key, falling back to user provided key if it exists
+function createClient(apiKey?: string) {
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || apiKey
+  });
+}
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+// Use gpt-4o if gpt-4 variants are selected
+function resolveModel(model: string) {
+  return model.startsWith("gpt-4") ? "gpt-4o" : model;
+}
+
+export const openaiProvider: CompletionProvider = {
+  id: "openai",
+
+  isConfigured() {
+    // A user-supplied key can still be sent with the request
+    return true;
+  },
+
+  describe() {
+    return {
+      id: "openai",
+      label: "OpenAI",
+      models: [
+        { id: "gpt-3.5-turbo", label: "GPT-3.5 Turbo" },
+        { id: "gpt-4", label: "GPT-4 (uses GPT-4o)" },
+      ],
+      nativePrefill: false,
+    };
+  },
+
+  async complete(request) {
+    const finalModel = resolveModel(request.model);
+    const result = await completeChat(createClient(request.apiKey), "openai", finalModel, request);
+    return { ...result, model: finalModel };
+  },
+
+  async *stream(request, signal) {
+    const finalModel = resolveModel(request.model);
+    for await (const event of streamChat(createClient(request.apiKey), "openai", finalModel, request, signal)) {
+      yield event.type === "done"
+        ? { ...event, response: { ...event.response, model: finalModel } }
+        : event;
+    }
+  },
+};
@@ -0,0 +1,19 @@
+import { CompletionResponse, CompletionStreamEvent } from "@shared/schema";
+
+// Emit a finished completion as a token stream, optionally pacing the tokens
+// so offline responses look like live generation
+export async function* replayAsStream(
+  response: CompletionResponse,
+  signal: AbortSignal,
+  delayMs = 0,
+): AsyncGenerator<CompletionStreamEvent> {
+  for (const token of response.tokenProbabilities) {
+    if (signal.aborted) return;
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    yield { type: "token", token };
+  }
+
+  yield { type: "done", response };
+}
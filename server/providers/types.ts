@@ -0,0 +1,22 @@
+import {
+  OpenAIRequest,
+  CompletionResponse,
+  CompletionStreamEvent,
+  ProviderId,
+  ProviderInfo,
+} from "@shared/schema";
+
+// A backend capable of returning completions with per-token logprobs.
+// Every provider normalizes its output into the shared CompletionResponse
+// shape so the client never needs to know where tokens came from.
+export interface CompletionProvider {
+  id: ProviderId;
+  // Whether the provider has the configuration (keys, URLs) it needs
+  isConfigured(): boolean;
+  // Label and models shown in the client's model dropdown
+  describe(): ProviderInfo;
+  complete(request: OpenAIRequest): Promise<CompletionResponse>;
+  // Token-by-token generation, ending with a "done" event. Providers without
+  // it are streamed by replaying the result of complete().
+  stream?(request: OpenAIRequest, signal: AbortSignal): AsyncIterable<CompletionStreamEvent>;
+}
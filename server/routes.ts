@@ -1,94 +1,323 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth } from "./auth";
 import { z } from "zod";
-import { openaiRequestSchema } from "@shared/schema";
-import { getCompletionWithProbabilities } from "./openai";
+import {
+  openaiRequestSchema,
+  branchRequestSchema,
+  scoreRequestSchema,
+  continuationsRequestSchema,
+  tokenLookupRequestSchema,
+  createShareRequestSchema,
+  type CompletionResponse,
+  type CompletionStreamEvent,
+  type OpenAIRequest,
+} from "@shared/schema";
+import { getCompletionWithProbabilities, streamCompletionWithProbabilities } from "./openai";
+import { getProvider, listProviders, resolveRequest } from "./providers";
+import { generateBranch } from "./branch";
+import { getMaxScoredTokens, scoreCompletion } from "./score";
+import { findLikelyContinuations } from "./continuations";
+import { lookupTokenIds } from "./tokens";
+import { findBranchedTokens, recordBranch, recordRun, toHistoryEntry, toHistorySummary } from "./history";
+import { createShare, toSharedRun } from "./shares";
+import { InvalidRequestError } from "./errors";
+
+// Saved run ids in /api/history/:id (a serial column, so 32-bit); anything
+// else names no run
+const historyIdSchema = z.coerce.number().int().positive().max(2 ** 31 - 1);
+
+// Map errors from completion endpoints to JSON responses
+function handleCompletionError(res: Response, error: unknown) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ 
+      message: "Invalid request data", 
+      errors: error.errors 
+    });
+  }
+
+  if (error instanceof InvalidRequestError) {
+    return res.status(400).json({ message: error.message });
+  }
+  
+  console.error("OpenAI API error:", error);
+  
+  // Check if it's an OpenAI API error
+  if (typeof error === 'object' && error !== null && 'response' in error) {
+    const apiError = error as any; // Type assertion for error with response
+    if (apiError.response && apiError.response.status) {
+      return res.status(apiError.response.status).json({
+        message: apiError.message || "Error from OpenAI API",
+        details: apiError.response.data
+      });
+    }
+  }
+  
+  // General error
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  res.status(500).json({ 
+    message: errorMessage || "Internal server error" 
+  });
+}
+
+// Record a run in the history. A storage failure shouldn't cost the user
+// the generation they just paid for, so it is logged rather than thrown.
+async function saveToHistory(userId: number, request: OpenAIRequest, response: CompletionResponse) {
+  try {
+    return await recordRun(userId, request, response);
+  } catch (error) {
+    console.error("Failed to record run in history:", error);
+    return undefined;
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and user accounts; guards every other /api route
+  setupAuth(app);
+
   // OpenAI API endpoint
   app.post("/api/openai", async (req, res) => {
     try {
       // Validate the request body
       const validatedData = openaiRequestSchema.parse(req.body);
       
-      // Get completion with token probabilities from OpenAI
-      const result = await getCompletionWithProbabilities({
-        prompt: validatedData.prompt,
-        model: validatedData.model,
-        temperature: validatedData.temperature,
-        maxTokens: validatedData.maxTokens,
-        apiKey: validatedData.apiKey,
-      });
+      // Get completion with token probabilities from the selected provider
+      const result = await getCompletionWithProbabilities(validatedData);
       
-      // Return the result
+      // Record the run and return the result
+      const historyId = await saveToHistory(req.user!.id, validatedData, result);
+      res.json({ ...result, historyId });
+    } catch (error: unknown) {
+      handleCompletionError(res, error);
+    }
+  });
+
+  // Branch endpoint: regenerate a response from an alternative token
+  app.post("/api/openai/branch", async (req, res) => {
+    try {
+      const validatedData = branchRequestSchema.parse(req.body);
+
+      // Branches joining a saved run fork from its stored tokens, not the client's
+      let tokenProbabilities = validatedData.tokenProbabilities;
+      if (validatedData.historyId !== undefined) {
+        const saved = await findBranchedTokens(
+          req.user!.id,
+          validatedData.historyId,
+          tokenProbabilities,
+          validatedData.position,
+        );
+        if (!saved) {
+          throw new InvalidRequestError("The branched tokens don't match the saved run");
+        }
+        tokenProbabilities = saved;
+      }
+      const result = await generateBranch({ ...validatedData, tokenProbabilities });
+
+      // Grow the saved run's token tree; as with runs, a storage failure is only logged
+      if (validatedData.historyId !== undefined) {
+        await recordBranch(req.user!.id, validatedData.historyId, result).catch((error) => {
+          console.error("Failed to record branch in history:", error);
+        });
+      }
+      res.json(result);
+    } catch (error: unknown) {
+      handleCompletionError(res, error);
+    }
+  });
+
+  // Score endpoint: per-token probabilities of a given completion
+  app.post("/api/openai/score", async (req, res) => {
+    try {
+      const validatedData = scoreRequestSchema.parse(req.body);
+      const result = await scoreCompletion(validatedData);
       res.json(result);
     } catch (error: unknown) {
-      // Handle errors
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: "Invalid request data", 
-          errors: error.errors 
+      handleCompletionError(res, error);
+    }
+  });
+
+  // Continuations endpoint: the most probable short continuations of a prompt
+  app.post("/api/openai/continuations", async (req, res) => {
+    try {
+      const validatedData = continuationsRequestSchema.parse(req.body);
+      const result = await findLikelyContinuations(validatedData);
+      res.json(result);
+    } catch (error: unknown) {
+      handleCompletionError(res, error);
+    }
+  });
+
+  // Token ID lookup for the logit_bias editor
+  app.post("/api/tokens/lookup", async (req, res, next) => {
+    try {
+      const parsed = tokenLookupRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid request data",
+          errors: parsed.error.errors
         });
       }
-      
-      console.error("OpenAI API error:", error);
-      
-      // Check if it's an OpenAI API error
-      if (typeof error === 'object' && error !== null && 'response' in error) {
-        const apiError = error as any; // Type assertion for error with response
-        if (apiError.response && apiError.response.status) {
-          return res.status(apiError.response.status).json({
-            message: apiError.message || "Error from OpenAI API",
-            details: apiError.response.data
-          });
+
+      res.json(await lookupTokenIds(parsed.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Streaming OpenAI endpoint: relays tokens as Server-Sent Events
+  app.post("/api/openai/stream", async (req, res) => {
+    const parsed = openaiRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid request data",
+        errors: parsed.error.errors
+      });
+    }
+
+    // Streams carry a single completion; several samples come from /api/openai
+    if ((parsed.data.n ?? 1) > 1) {
+      return res.status(400).json({ message: "Streaming supports n = 1 only; use /api/openai for several samples" });
+    }
+
+    // Refuse an unconfigured provider while a status code can still say so
+    try {
+      getProvider(resolveRequest(parsed.data).provider);
+    } catch (error) {
+      return handleCompletionError(res, error);
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
+
+    const sendEvent = (event: CompletionStreamEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Abort the upstream request when the client disconnects or presses Stop
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    try {
+      for await (const event of streamCompletionWithProbabilities(parsed.data, controller.signal)) {
+        if (event.type === "done") {
+          const historyId = await saveToHistory(req.user!.id, parsed.data, event.response);
+          sendEvent({ ...event, response: { ...event.response, historyId } });
+        } else {
+          sendEvent(event);
         }
       }
-      
-      // General error
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ 
-        message: errorMessage || "Internal server error" 
-      });
+    } catch (error: unknown) {
+      if (!controller.signal.aborted) {
+        console.error("OpenAI streaming error:", error);
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        sendEvent({ type: "error", message: errorMessage || "Internal server error" });
+      }
+    } finally {
+      res.end();
     }
   });
 
-  // Health check endpoint
-  app.get("/api/health", (_req, res) => {
-    res.json({ status: "ok" });
+  // The current user's recorded runs, newest first
+  app.get("/api/history", async (req, res, next) => {
+    try {
+      const responses = await storage.listResponses(req.user!.id);
+      res.json(responses.map(toHistorySummary));
+    } catch (error) {
+      next(error);
+    }
   });
-  
-  // Passkey verification endpoint
-  app.post("/api/verify-passkey", (req, res) => {
+
+  // A single recorded run, with its token probabilities
+  app.get("/api/history/:id", async (req, res, next) => {
     try {
-      const { passkey } = req.body;
-      const correctPasskey = process.env.EXPLORER_PASSKEY;
-      
-      if (!correctPasskey) {
-        return res.status(500).json({ 
-          error: "Server configuration error: No passkey configured" 
-        });
+      const id = historyIdSchema.safeParse(req.params.id);
+      if (!id.success) {
+        return res.status(404).json({ message: "Run not found" });
       }
-      
-      const isValid = passkey === correctPasskey;
-      
-      if (isValid) {
-        return res.json({ success: true });
-      } else {
-        return res.status(401).json({ 
-          success: false, 
-          message: "Invalid passkey" 
+      const response = await storage.getResponse(id.data);
+      if (!response || response.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      res.json(toHistoryEntry(response));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/history/:id", async (req, res, next) => {
+    try {
+      const id = historyIdSchema.safeParse(req.params.id);
+      if (!id.success) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      const response = await storage.getResponse(id.data);
+      if (!response || response.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      await storage.deleteResponse(response.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Share a run under a permalink
+  app.post("/api/shares", async (req, res, next) => {
+    try {
+      const parsed = createShareRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid request data",
+          errors: parsed.error.errors
         });
       }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ 
-        success: false, 
-        message: `Server error during authentication: ${errorMessage}` 
-      });
+
+      const share = await createShare(req.user!.id, parsed.data);
+      if (!share) {
+        return res.status(404).json({ message: "Saved run not found" });
+      }
+      res.status(201).json(share);
+    } catch (error) {
+      next(error);
     }
   });
 
+  // A shared run. Public ones can be viewed without logging in; the rest
+  // by anyone with an account on this server.
+  app.get("/api/shares/:id", async (req, res, next) => {
+    try {
+      const share = await storage.getSharedRun(req.params.id);
+      if (!share) {
+        return res.status(404).json({ message: "Shared run not found" });
+      }
+      if (!share.isPublic && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Log in to view this run" });
+      }
+      res.json(toSharedRun(share));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Available completion providers and their models, and the longest
+  // completion that can be scored
+  app.get("/api/providers", (_req, res) => {
+    res.json({ providers: listProviders(), maxScoredTokens: getMaxScoredTokens() });
+  });
+
+  // Health check endpoint
+  app.get("/api/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+  
   const httpServer = createServer(app);
   return httpServer;
 }
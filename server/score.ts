@@ -0,0 +1,134 @@
+import { CompletionResponse, ScoreRequest, TokenProbability } from "@shared/schema";
+import { withAnalytics } from "@shared/analytics";
+import { countTokens, getEncodingForModel, loadTokenizer, splitTokens, type TokenPiece } from "@shared/tokenizer";
+import { getCompletionWithProbabilities } from "./openai";
+import { getProvider, resolveRequest } from "./providers";
+import { InvalidRequestError } from "./errors";
+
+// Each scored token costs one request, so long completions are refused.
+// SCORE_MAX_TOKENS raises or lowers the limit.
+export function getMaxScoredTokens(): number {
+  const limit = Number.parseInt(process.env.SCORE_MAX_TOKENS ?? "", 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : 64;
+}
+
+// Requests in flight at once while scoring
+const SCORE_CONCURRENCY = 4;
+
+// The most alternatives providers return, to give the reference token the
+// best chance of being ranked
+const SCORE_TOP_LOGPROBS = 20;
+
+// Run `task` over every item, at most `limit` at a time, keeping the order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Probability of `token` at a position, given the distribution the model
+// returned when asked for the next token there. Candidates are compared by
+// string unless `matches` says otherwise.
+export function scoreToken(
+  token: string,
+  predicted: TokenProbability | undefined,
+  matches: (candidate: string) => boolean = (candidate) => candidate === token,
+): TokenProbability {
+  const candidates = predicted
+    ? [{ token: predicted.token, probability: predicted.probability }, ...predicted.alternatives]
+    : [];
+
+  const match = candidates.find((candidate) => matches(candidate.token));
+  if (match) {
+    return {
+      token,
+      probability: match.probability,
+      alternatives: candidates.filter((candidate) => candidate !== match),
+    };
+  }
+
+  // Outside the top-k, the token can be no likelier than the least likely
+  // ranked candidate, nor than the mass the ranked candidates leave over
+  const covered = candidates.reduce((sum, candidate) => sum + candidate.probability, 0);
+  const leastLikely = Math.min(1, ...candidates.map((candidate) => candidate.probability));
+  return {
+    token,
+    probability: Math.min(leastLikely, Math.max(0, 1 - covered)),
+    alternatives: candidates,
+    estimated: true,
+  };
+}
+
+// Teacher-forced scoring: the completion is split into tokens, and for each
+// one the reply is prefilled with the tokens before it and the model is asked
+// for a single token. The reference token is then looked up among the
+// returned alternatives by token ID, so differently spelled or normalized
+// strings can't be mistaken for it. Tokens are split with the model's BPE
+// encoding (or the closest fallback), so self-hosted models with their own
+// vocabulary may rank different token boundaries than the ones scored here.
+//
+// A character whose UTF-8 bytes span several tokens is scored as one piece,
+// so prefixes never end partway through it. Providers report such partial
+// tokens as lossy strings, so the piece only matches a candidate that is the
+// whole character; otherwise its probability is estimated.
+export async function scoreCompletion({ completion, ...request }: ScoreRequest): Promise<CompletionResponse> {
+  const tokenizer = await loadTokenizer(getEncodingForModel(request.model));
+  const pieces = splitTokens(tokenizer, completion);
+  const tokenCount = countTokens(pieces);
+  const maxScoredTokens = getMaxScoredTokens();
+  if (tokenCount > maxScoredTokens) {
+    throw new InvalidRequestError(`Completion is ${tokenCount} tokens; at most ${maxScoredTokens} can be scored`);
+  }
+  // The OpenAI API starts a new turn instead of continuing a prefilled reply,
+  // so the model is only asked to continue it: not true teacher forcing
+  const { nativePrefill } = getProvider(resolveRequest(request).provider).describe();
+
+  const isPiece = (piece: TokenPiece) => (candidate: string) => {
+    const candidateIds = tokenizer.encode(candidate);
+    return candidateIds.length === piece.tokenIds.length && candidateIds.every((id, i) => id === piece.tokenIds[i]);
+  };
+
+  const startTime = Date.now();
+  const steps = await mapWithConcurrency(pieces, SCORE_CONCURRENCY, (_, index) =>
+    getCompletionWithProbabilities({
+      ...request,
+      assistantPrefix: pieces.slice(0, index).map((piece) => piece.text).join(""),
+      maxTokens: 1,
+      topLogprobs: SCORE_TOP_LOGPROBS,
+    })
+  );
+
+  const promptTokens = steps[0]?.usage.promptTokens ?? 0;
+  return withAnalytics({
+    text: completion,
+    tokenProbabilities: pieces.map((piece, index) =>
+      scoreToken(piece.text, steps[index].tokenProbabilities[0], isPiece(piece))
+    ),
+    usage: {
+      promptTokens,
+      completionTokens: tokenCount,
+      totalTokens: promptTokens + tokenCount,
+    },
+    responseTime: ((Date.now() - startTime) / 1000).toFixed(2),
+    model: steps[0]?.model ?? request.model,
+    provider: request.provider,
+    finishReason: null,
+    scoring: {
+      requests: pieces.length,
+      approximate: !nativePrefill,
+    },
+  });
+}
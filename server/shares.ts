@@ -0,0 +1,44 @@
+import { nanoid } from "nanoid";
+import { CreateShareRequest, SharedRun, SharedRunRow } from "@shared/schema";
+import { withAnalytics } from "@shared/analytics";
+import { storage } from "./storage";
+import { toHistoryEntry, toRunSettings } from "./history";
+
+// Permalink IDs: 10 URL-safe characters is plenty for a per-deployment store
+const SHARE_ID_LENGTH = 10;
+
+// Store a snapshot of one of the user's saved runs, with its branches, under
+// a new permalink ID; null when the user has no such run. Analytics are left
+// out, since they are recomputed when the run is served.
+export async function createShare(userId: number, { historyId, isPublic }: CreateShareRequest): Promise<SharedRun | null> {
+  const saved = await storage.getResponse(historyId);
+  if (!saved || saved.userId !== userId) {
+    return null;
+  }
+
+  const entry = toHistoryEntry(saved);
+  const { analytics: _analytics, historyId: _historyId, ...response } = entry.response;
+  const row = await storage.createSharedRun({
+    id: nanoid(SHARE_ID_LENGTH),
+    userId,
+    isPublic,
+    run: {
+      request: toRunSettings(entry),
+      response,
+      branches: entry.branches.map(({ analytics: _branchAnalytics, ...branch }) => branch),
+    },
+    createdAt: new Date().toISOString(),
+  });
+  return toSharedRun(row);
+}
+
+export function toSharedRun(row: SharedRunRow): SharedRun {
+  return {
+    id: row.id,
+    isPublic: row.isPublic,
+    createdAt: row.createdAt,
+    request: row.run.request,
+    response: withAnalytics(row.run.response),
+    branches: row.run.branches.map((branch) => withAnalytics(branch)),
+  };
+}
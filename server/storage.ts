@@ -1,4 +1,17 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  users,
+  openaiResponses,
+  sharedRuns,
+  type User,
+  type InsertUser,
+  type OpenAIResponse,
+  type InsertOpenAIResponse,
+  type SharedRunRow,
+  type InsertSharedRun,
+  type BranchResponse,
+} from "@shared/schema";
+import { db, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +20,30 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  saveResponse(response: InsertOpenAIResponse): Promise<OpenAIResponse>;
+  updateResponse(id: number, updates: Partial<InsertOpenAIResponse>): Promise<OpenAIResponse | undefined>;
+  listResponses(userId: number): Promise<OpenAIResponse[]>;
+  getResponse(id: number): Promise<OpenAIResponse | undefined>;
+  deleteResponse(id: number): Promise<boolean>;
+  // Atomically add a branch to a user's run; false when there is no such run
+  appendBranch(id: number, userId: number, branch: BranchResponse): Promise<boolean>;
+  createSharedRun(share: InsertSharedRun): Promise<SharedRunRow>;
+  getSharedRun(id: string): Promise<SharedRunRow | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private responses: Map<number, OpenAIResponse>;
+  private sharedRuns: Map<string, SharedRunRow>;
   currentId: number;
+  currentResponseId: number;
 
   constructor() {
     this.users = new Map();
+    this.responses = new Map();
+    this.sharedRuns = new Map();
     this.currentId = 1;
+    this.currentResponseId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +62,161 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async saveResponse(insertResponse: InsertOpenAIResponse): Promise<OpenAIResponse> {
+    const id = this.currentResponseId++;
+    const response: OpenAIResponse = {
+      userId: null,
+      messages: null,
+      provider: "openai",
+      promptTokens: null,
+      completionTokens: null,
+      totalTokens: null,
+      tokenProbabilities: null,
+      samplingParams: null,
+      systemFingerprint: null,
+      branches: null,
+      responseTime: null,
+      finishReason: null,
+      ...insertResponse,
+      id,
+    };
+    this.responses.set(id, response);
+    return response;
+  }
+
+  async updateResponse(
+    id: number,
+    updates: Partial<InsertOpenAIResponse>,
+  ): Promise<OpenAIResponse | undefined> {
+    const existing = this.responses.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const response: OpenAIResponse = { ...existing, ...updates, id };
+    this.responses.set(id, response);
+    return response;
+  }
+
+  // A user's runs, newest first
+  async listResponses(userId: number): Promise<OpenAIResponse[]> {
+    return Array.from(this.responses.values())
+      .filter((response) => response.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getResponse(id: number): Promise<OpenAIResponse | undefined> {
+    return this.responses.get(id);
+  }
+
+  async deleteResponse(id: number): Promise<boolean> {
+    return this.responses.delete(id);
+  }
+
+  async appendBranch(id: number, userId: number, branch: BranchResponse): Promise<boolean> {
+    const existing = this.responses.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    this.responses.set(id, { ...existing, branches: [...(existing.branches ?? []), branch] });
+    return true;
+  }
+
+  async createSharedRun(insertShare: InsertSharedRun): Promise<SharedRunRow> {
+    const share: SharedRunRow = { userId: null, isPublic: false, ...insertShare };
+    this.sharedRuns.set(share.id, share);
+    return share;
+  }
+
+  async getSharedRun(id: string): Promise<SharedRunRow | undefined> {
+    return this.sharedRuns.get(id);
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async saveResponse(insertResponse: InsertOpenAIResponse): Promise<OpenAIResponse> {
+    const [response] = await this.db.insert(openaiResponses).values(insertResponse).returning();
+    return response;
+  }
+
+  async updateResponse(
+    id: number,
+    updates: Partial<InsertOpenAIResponse>,
+  ): Promise<OpenAIResponse | undefined> {
+    const [response] = await this.db
+      .update(openaiResponses)
+      .set(updates)
+      .where(eq(openaiResponses.id, id))
+      .returning();
+    return response;
+  }
+
+  // A user's runs, newest first
+  async listResponses(userId: number): Promise<OpenAIResponse[]> {
+    return this.db
+      .select()
+      .from(openaiResponses)
+      .where(eq(openaiResponses.userId, userId))
+      .orderBy(desc(openaiResponses.id));
+  }
+
+  async getResponse(id: number): Promise<OpenAIResponse | undefined> {
+    const [response] = await this.db
+      .select()
+      .from(openaiResponses)
+      .where(eq(openaiResponses.id, id));
+    return response;
+  }
+
+  async deleteResponse(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(openaiResponses)
+      .where(eq(openaiResponses.id, id))
+      .returning({ id: openaiResponses.id });
+    return deleted.length > 0;
+  }
+
+  // A single UPDATE appends to the stored array, so branches recorded at the
+  // same time can't overwrite each other. The column is json, which has no
+  // concatenation, hence the round trip through jsonb.
+  async appendBranch(id: number, userId: number, branch: BranchResponse): Promise<boolean> {
+    const appended = await this.db
+      .update(openaiResponses)
+      .set({
+        branches: sql`(coalesce(${openaiResponses.branches}::jsonb, '[]'::jsonb) || ${JSON.stringify([branch])}::jsonb)::json`,
+      })
+      .where(and(eq(openaiResponses.id, id), eq(openaiResponses.userId, userId)))
+      .returning({ id: openaiResponses.id });
+    return appended.length > 0;
+  }
+
+  async createSharedRun(insertShare: InsertSharedRun): Promise<SharedRunRow> {
+    const [share] = await this.db.insert(sharedRuns).values(insertShare).returning();
+    return share;
+  }
+
+  async getSharedRun(id: string): Promise<SharedRunRow | undefined> {
+    const [share] = await this.db.select().from(sharedRuns).where(eq(sharedRuns.id, id));
+    return share;
+  }
 }
 
-export const storage = new MemStorage();
+// Use the database when one is configured (see db.ts), memory otherwise
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
@@ -0,0 +1,14 @@
+import { TokenLookupRequest, TokenLookupResponse } from "@shared/schema";
+import { getEncodingForModel, isExactEncodingForModel, loadTokenizer } from "@shared/tokenizer";
+
+// Map token strings to their IDs in the model's encoding, so tokens picked in
+// the token view can be put in a logit_bias table
+export async function lookupTokenIds({ model, tokens }: TokenLookupRequest): Promise<TokenLookupResponse> {
+  const tokenizer = await loadTokenizer(getEncodingForModel(model));
+
+  return {
+    encoding: tokenizer.encoding,
+    exact: isExactEncodingForModel(model),
+    tokens: tokens.map((token) => ({ token, ids: tokenizer.encode(token) })),
+  };
+}
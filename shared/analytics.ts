@@ -0,0 +1,53 @@
+import type { CompletionResponse, ResponseAnalytics, TokenProbability } from "./schema";
+
+// Information-theoretic measures of how uncertain the model was. All values
+// are in bits. Entropy only sees the top-k alternatives the API returned, so
+// it is computed over that distribution renormalized to sum to 1.
+
+// Floor for probabilities, so a logprob that underflowed to 0 stays finite
+const MIN_PROBABILITY = 1e-10;
+
+// −log2 p: how surprised the model was by the token it produced
+export function surprisal(probability: number): number {
+  return -Math.log2(Math.max(probability, MIN_PROBABILITY));
+}
+
+// Shannon entropy of a position's returned top-k distribution
+export function entropy(tokenData: TokenProbability): number {
+  const probabilities = [tokenData.probability, ...tokenData.alternatives.map((alt) => alt.probability)];
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  if (total <= 0) {
+    return 0;
+  }
+
+  return probabilities.reduce((sum, p) => {
+    const normalized = p / total;
+    return normalized > 0 ? sum - normalized * Math.log2(normalized) : sum;
+  }, 0);
+}
+
+export function computeAnalytics(tokenProbabilities: TokenProbability[]): ResponseAnalytics {
+  const tokens = tokenProbabilities.map((tokenData) => ({
+    surprisal: surprisal(tokenData.probability),
+    entropy: entropy(tokenData),
+  }));
+
+  const count = tokens.length;
+  const totalSurprisal = tokens.reduce((sum, token) => sum + token.surprisal, 0);
+  const meanSurprisal = count > 0 ? totalSurprisal / count : 0;
+  const meanEntropy = count > 0 ? tokens.reduce((sum, token) => sum + token.entropy, 0) / count : 0;
+
+  return {
+    // Perplexity = 2^(mean surprisal in bits) = exp(mean negative log-likelihood)
+    perplexity: Math.pow(2, meanSurprisal),
+    meanSurprisal,
+    meanEntropy,
+    totalSurprisal,
+    tokens,
+  };
+}
+
+// Attach analytics computed from the response's current tokens
+export function withAnalytics<T extends CompletionResponse>(response: T): T {
+  return { ...response, analytics: computeAnalytics(response.tokenProbabilities) };
+}
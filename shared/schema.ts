@@ -2,6 +2,47 @@ import { pgTable, text, serial, integer, boolean, json } from "drizzle-orm/pg-co
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const tokenProbabilitySchema = z.object({
+  token: z.string(),
+  probability: z.number(),
+  alternatives: z.array(
+    z.object({
+      token: z.string(),
+      probability: z.number(),
+    })
+  ),
+  // Set when scoring text the model didn't rank in its top alternatives:
+  // the probability is then only an upper bound
+  estimated: z.boolean().optional(),
+});
+
+// One earlier turn of a conversation, sent ahead of the prompt
+export const chatRoles = ["system", "user", "assistant"] as const;
+export const chatMessageSchema = z.object({
+  role: z.enum(chatRoles),
+  content: z.string(),
+});
+
+// A conversation turn as the client keeps it: generated assistant turns
+// keep the token probabilities they were generated with
+export const chatTurnSchema = chatMessageSchema.extend({
+  tokenProbabilities: z.array(tokenProbabilitySchema).optional(),
+});
+
+// Optional sampling parameters, forwarded to the provider when set
+export const samplingParamsSchema = z.object({
+  topP: z.number().min(0).max(1).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  seed: z.number().int().optional(), // Best-effort determinism, echoed back in the response
+  stop: z.array(z.string().min(1)).max(4).optional(), // Up to 4 stop sequences
+  // Token ID (as a string) → bias from -100 (ban) to 100 (force)
+  logitBias: z.record(
+    z.string().regex(/^\d+$/, "logit_bias keys must be token IDs"),
+    z.number().min(-100).max(100)
+  ).optional(),
+});
+
 // User schema for storing API keys (in a real app, not browser storage)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -14,48 +55,327 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-// API responses schema (could be used for caching or history)
+// Usernames are stored trimmed, and logins are looked up the same way
+export const usernameSchema = z.string().trim();
+
+// Account sign-up; the passkey is required when the server sets one
+export const registerUserSchema = insertUserSchema.extend({
+  username: usernameSchema.min(3, "Username must be at least 3 characters").max(32),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  passkey: z.string().optional(),
+});
+
+// API responses schema: every generation is recorded here for the history browser
 export const openaiResponses = pgTable("openai_responses", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   prompt: text("prompt").notNull(),
+  // Conversation turns sent before the prompt, if any
+  messages: json("messages").$type<ChatMessage[]>(),
   response: text("response").notNull(),
+  provider: text("provider").notNull().default("openai"),
   model: text("model").notNull(),
   temperature: text("temperature").notNull(),
   maxTokens: integer("max_tokens").notNull(),
   promptTokens: integer("prompt_tokens"),
   completionTokens: integer("completion_tokens"),
   totalTokens: integer("total_tokens"),
-  tokenProbabilities: json("token_probabilities"),
+  tokenProbabilities: json("token_probabilities").$type<TokenProbability[]>(),
+  // Advanced sampling parameters the run was generated with
+  samplingParams: json("sampling_params").$type<SamplingParams>(),
+  systemFingerprint: text("system_fingerprint"),
+  // Branches generated from the run, which make up its token tree
+  branches: json("branches").$type<BranchResponse[]>(),
+  responseTime: text("response_time"),
+  finishReason: text("finish_reason"),
   createdAt: text("created_at").notNull(),
 });
 
-export const insertResponseSchema = createInsertSchema(openaiResponses).omit({
+export const insertResponseSchema = createInsertSchema(openaiResponses, {
+  tokenProbabilities: z.array(tokenProbabilitySchema).nullable().optional(),
+  messages: z.array(chatMessageSchema).nullable().optional(),
+  samplingParams: samplingParamsSchema.nullable().optional(),
+  // Declared further down, after the response schemas it extends
+  branches: z.array(z.lazy(() => branchResponseSchema)).nullable().optional(),
+}).omit({
   id: true,
 });
 
+// Runs shared by permalink, under a short random ID
+export const sharedRuns = pgTable("shared_runs", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  // Viewable without logging in
+  isPublic: boolean("is_public").notNull().default(false),
+  run: json("run").$type<SharedRunSnapshot>().notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertSharedRunSchema = createInsertSchema(sharedRuns, {
+  // Declared further down, after the response schemas it uses
+  run: z.lazy(() => sharedRunSnapshotSchema),
+});
+
+// Completion providers the server knows how to dispatch to
+export const providerIds = ["openai", "openai-compatible", "mock"] as const;
+export const providerIdSchema = z.enum(providerIds);
+
 // Types for API requests/responses
 export const openaiRequestSchema = z.object({
   prompt: z.string().min(1, "Prompt is required"),
+  messages: z.array(chatMessageSchema).max(100).optional(), // Earlier turns sent before the prompt
+  provider: providerIdSchema.default("openai"),
   model: z.string().default("gpt-3.5-turbo"),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().min(1).max(4096).default(150),
+  topLogprobs: z.number().int().min(0).max(20).default(5), // Alternatives returned per token
   apiKey: z.string().optional(), // Now optional as we'll use the server's API key
+  assistantPrefix: z.string().optional(), // Text the reply must continue from (prefill)
+  historyId: z.number().int().optional(), // Saved run this request continues (Auto Continue)
+  n: z.number().int().min(1).max(10).optional(), // Completions to sample (the API's `n`); 1 when unset
+  ...samplingParamsSchema.shape,
 });
 
-export const tokenProbabilitySchema = z.object({
+// Uncertainty measures for a response, in bits (see shared/analytics.ts)
+export const responseAnalyticsSchema = z.object({
+  perplexity: z.number(),
+  meanSurprisal: z.number(),
+  meanEntropy: z.number(),
+  totalSurprisal: z.number(),
+  tokens: z.array(z.object({
+    surprisal: z.number(),
+    entropy: z.number(),
+  })),
+});
+
+// One of several completions sampled for the same request
+export const completionSampleSchema = z.object({
+  text: z.string(),
+  tokenProbabilities: z.array(tokenProbabilitySchema),
+  finishReason: z.string().nullable().default(null),
+});
+
+// Normalized completion returned by every provider
+export const completionResponseSchema = z.object({
+  text: z.string(),
+  tokenProbabilities: z.array(tokenProbabilitySchema),
+  usage: z.object({
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+  }),
+  responseTime: z.string(),
+  model: z.string(),
+  provider: providerIdSchema,
+  // Why generation stopped: "stop", "length" (hit maxTokens), ...
+  finishReason: z.string().nullable().default(null),
+  // ID of the saved run in the history, when it was recorded
+  historyId: z.number().optional(),
+  // Backend configuration reported by the provider, and the seed requested;
+  // runs with the same seed and fingerprint should be reproducible
+  systemFingerprint: z.string().nullable().optional(),
+  seed: z.number().int().optional(),
+  analytics: responseAnalyticsSchema.optional(),
+  // Every completion when n > 1 was requested, the first being the one above
+  samples: z.array(completionSampleSchema).optional(),
+  // Set on scored responses: the completion requests they took, and whether
+  // the provider could only be asked to continue the reply (see ProviderInfo)
+  scoring: z.object({
+    requests: z.number().int(),
+    approximate: z.boolean(),
+  }).optional(),
+});
+
+// Regenerate a response from one of its alternative tokens
+export const branchRequestSchema = openaiRequestSchema.extend({
+  tokenProbabilities: z.array(tokenProbabilitySchema).min(1),
+  position: z.number().int().min(0),
+  alternative: z.string(),
+  historyId: z.number().int().optional(), // Saved run whose token tree the branch joins
+});
+
+// A given completion to score token by token, instead of generating one
+export const scoreRequestSchema = openaiRequestSchema.omit({
+  assistantPrefix: true,
+  historyId: true,
+  n: true,
+}).extend({
+  completion: z.string().min(1, "Completion to score is required"),
+});
+
+// Most likely short continuations: a beam search over the first `depth`
+// positions, `width` candidates at a time, each beam finished greedily up to
+// `length` tokens
+export const continuationsRequestSchema = openaiRequestSchema.omit({
+  assistantPrefix: true,
+  historyId: true,
+  n: true,
+}).extend({
+  depth: z.number().int().min(1).max(4).default(2),
+  width: z.number().int().min(2).max(5).default(3),
+  count: z.number().int().min(1).max(10).default(5),
+  length: z.number().int().min(1).max(32).default(12),
+});
+
+// Token strings to look up in a model's encoding (for logit_bias)
+export const tokenLookupRequestSchema = z.object({
+  model: z.string(),
+  tokens: z.array(z.string().min(1)).min(1).max(100),
+});
+
+// A full response whose token at `position` was swapped for an alternative
+export const branchResponseSchema = completionResponseSchema.extend({
+  branch: z.object({
+    position: z.number(),
+    token: z.string(),
+    originalToken: z.string(),
+  }),
+});
+
+// A continuation scored by the sum of its tokens' natural-log probabilities
+export const continuationSchema = z.object({
+  text: z.string(),
+  tokenProbabilities: z.array(tokenProbabilitySchema),
+  logprob: z.number(),
+  probability: z.number(),
+  // Whether it follows the most likely token at every expanded position
+  isGreedy: z.boolean(),
+});
+
+export const continuationsResponseSchema = z.object({
+  continuations: z.array(continuationSchema),
+  model: z.string(),
+  provider: providerIdSchema,
+  responseTime: z.string(),
+  // Completion requests the search made
+  requests: z.number(),
+});
+
+// A run's prompt and settings, without credentials
+export const runSettingsSchema = openaiRequestSchema.omit({ apiKey: true, historyId: true });
+
+// What a permalink shows: the run's settings, its response and the branches
+// of its token tree
+export const sharedRunSnapshotSchema = z.object({
+  request: runSettingsSchema,
+  response: completionResponseSchema,
+  branches: z.array(branchResponseSchema).max(100).default([]),
+});
+
+// Shares are taken from the caller's saved runs, so a permalink can only
+// show what this server actually generated
+export const createShareRequestSchema = z.object({
+  historyId: z.number().int(),
+  isPublic: z.boolean().default(false),
+});
+
+// Downloadable run files. Bump the version on any breaking change to these
+// shapes, since analysis notebooks read them.
+export const RUN_EXPORT_VERSION = 1;
+
+// A whole run as a JSON document (also what can be imported back)
+export const runExportSchema = sharedRunSnapshotSchema.extend({
+  format: z.literal("llm-explorer-run"),
+  version: z.literal(RUN_EXPORT_VERSION),
+  exportedAt: z.string(),
+});
+
+// One row per token in CSV and JSONL exports. Alternatives are ranked from 1,
+// most likely first; logprobs are natural logs.
+export const tokenExportRowSchema = z.object({
+  position: z.number().int(),
   token: z.string(),
   probability: z.number(),
-  alternatives: z.array(
-    z.object({
-      token: z.string(),
-      probability: z.number(),
-    })
-  ),
+  logprob: z.number(),
+  estimated: z.boolean(),
+  alternatives: z.array(z.object({
+    rank: z.number().int(),
+    token: z.string(),
+    probability: z.number(),
+    logprob: z.number(),
+  })),
 });
 
+// Events sent by /api/openai/stream as Server-Sent Events
+export type CompletionStreamEvent =
+  | { type: "token"; token: TokenProbability }
+  | { type: "done"; response: CompletionResponse }
+  | { type: "error"; message: string };
+
+// Saved run as listed in the history sidebar (without token data)
+export type HistorySummary = {
+  id: number;
+  prompt: string;
+  provider: string;
+  model: string;
+  completionTokens: number | null;
+  createdAt: string;
+};
+
+// Saved run with everything needed to show it again in ResultsPanel
+export type HistoryEntry = HistorySummary & {
+  messages: ChatMessage[];
+  samplingParams: SamplingParams;
+  temperature: number;
+  maxTokens: number;
+  // Not stored with the run; read back from how many alternatives it kept
+  topLogprobs: number;
+  response: CompletionResponse;
+  branches: BranchResponse[];
+};
+
+// A shared run as served to its permalink page
+export type SharedRun = SharedRunSnapshot & {
+  id: string;
+  isPublic: boolean;
+  createdAt: string;
+};
+
+// Token IDs for each looked-up string. A string the model returned as one
+// token normally has one ID; `exact` is false when the encoding is only the
+// closest fallback for the model.
+export type TokenLookupResponse = {
+  encoding: string;
+  exact: boolean;
+  tokens: { token: string; ids: number[] }[];
+};
+
+// Provider metadata exposed to the client for the model dropdown
+export type ProviderInfo = {
+  id: ProviderId;
+  label: string;
+  models: { id: string; label: string }[];
+  // Whether the provider continues a prefilled reply itself. Others are asked
+  // to continue it, so their scores are only approximate.
+  nativePrefill: boolean;
+};
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type SamplingParams = z.infer<typeof samplingParamsSchema>;
+export type ChatTurn = z.infer<typeof chatTurnSchema>;
+export type ProviderId = z.infer<typeof providerIdSchema>;
 export type TokenProbability = z.infer<typeof tokenProbabilitySchema>;
+export type CompletionResponse = z.infer<typeof completionResponseSchema>;
+export type CompletionSample = z.infer<typeof completionSampleSchema>;
+export type ResponseAnalytics = z.infer<typeof responseAnalyticsSchema>;
+export type BranchRequest = z.infer<typeof branchRequestSchema>;
+export type BranchResponse = z.infer<typeof branchResponseSchema>;
+export type ScoreRequest = z.infer<typeof scoreRequestSchema>;
+export type TokenLookupRequest = z.infer<typeof tokenLookupRequestSchema>;
+export type ContinuationsRequest = z.infer<typeof continuationsRequestSchema>;
+export type Continuation = z.infer<typeof continuationSchema>;
+export type ContinuationsResponse = z.infer<typeof continuationsResponseSchema>;
 export type OpenAIRequest = z.infer<typeof openaiRequestSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Pick<User, "id" | "username">;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type OpenAIResponse = typeof openaiResponses.$inferSelect;
 export type InsertOpenAIResponse = z.infer<typeof insertResponseSchema>;
+export type SharedRunSnapshot = z.infer<typeof sharedRunSnapshotSchema>;
+export type CreateShareRequest = z.infer<typeof createShareRequestSchema>;
+export type RunSettings = z.infer<typeof runSettingsSchema>;
+export type RunExport = z.infer<typeof runExportSchema>;
+export type TokenExportRow = z.infer<typeof tokenExportRowSchema>;
+export type SharedRunRow = typeof sharedRuns.$inferSelect;
+export type InsertSharedRun = z.infer<typeof insertSharedRunSchema>;
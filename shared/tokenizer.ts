@@ -0,0 +1,102 @@
+// BPE tokenization matching OpenAI's encodings, shared by the client (token
+// counter, prompt token view) and the server. Encodings are large, so they
+// are loaded on first use rather than bundled up front.
+
+export type EncodingName = "cl100k_base" | "o200k_base";
+
+export interface Tokenizer {
+  encoding: EncodingName;
+  encode(text: string): number[];
+  decode(tokenIds: number[]): string;
+  // Decodes incrementally, yielding text only once it forms whole characters
+  decodeGenerator(tokenIds: Iterable<number>): Generator<string, void, void>;
+}
+
+// gpt-4o and newer models use o200k_base; GPT-3.5 / GPT-4 use cl100k_base.
+// Our "gpt-4" option is served by gpt-4o. Models we can't identify
+// (self-hosted, mock) fall back to cl100k_base as the closest common choice.
+export function getEncodingForModel(model: string): EncodingName {
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/.test(model) || model === "gpt-4") {
+    return "o200k_base";
+  }
+  return "cl100k_base";
+}
+
+// Whether the encoding is the model's actual tokenizer, not a fallback
+export function isExactEncodingForModel(model: string): boolean {
+  return /^(gpt-|o1|o3|o4|chatgpt-)/.test(model);
+}
+
+const tokenizers = new Map<EncodingName, Promise<Tokenizer>>();
+
+export function loadTokenizer(encoding: EncodingName): Promise<Tokenizer> {
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    const module = encoding === "o200k_base"
+      ? import("gpt-tokenizer/encoding/o200k_base")
+      : import("gpt-tokenizer/encoding/cl100k_base");
+    tokenizer = module.then(({ encode, decode, decodeGenerator }) => ({ encoding, encode, decode, decodeGenerator }));
+    // A failed load (e.g. a chunk that didn't download) is retried next time
+    tokenizer.catch(() => tokenizers.delete(encoding));
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+// A run of tokens that decodes to whole characters: usually one token, several
+// when a character's UTF-8 bytes are split across tokens (CJK, emoji, many
+// accented letters)
+export interface TokenPiece {
+  text: string;
+  tokenIds: number[];
+}
+
+// Split text into its tokens. IDs that end partway through a character don't
+// decode to anything on their own, so the IDs are streamed through the
+// decoder and grouped by the text it yields.
+export function splitTokens(tokenizer: Tokenizer, text: string): TokenPiece[] {
+  const tokenIds = tokenizer.encode(text);
+
+  const split = () => {
+    const pieces: TokenPiece[] = [];
+    let pending: number[] = [];
+    // The decoder pulls one ID at a time, so `pending` holds the IDs behind
+    // each piece of text it yields
+    const feed = function* () {
+      for (const tokenId of tokenIds) {
+        pending.push(tokenId);
+        yield tokenId;
+      }
+    };
+    const decoder = tokenizer.decodeGenerator(feed());
+    for (let result = decoder.next(); !result.done; result = decoder.next()) {
+      pieces.push({ text: result.value, tokenIds: pending });
+      pending = [];
+    }
+    // Trailing IDs that never completed a character join the last piece
+    if (pending.length > 0) {
+      if (pieces.length > 0) {
+        pieces[pieces.length - 1].tokenIds.push(...pending);
+      } else {
+        pieces.push({ text, tokenIds: pending });
+      }
+    }
+    return pieces;
+  };
+
+  // gpt-tokenizer shares one streaming TextDecoder between calls, so bytes
+  // left over by an earlier decode() of a partial character can garble the
+  // start of this one; the pass itself clears them, so a second is clean
+  const pieces = split();
+  return pieces.map((piece) => piece.text).join("") === text ? pieces : split();
+}
+
+// Number of tokens in a split, which can be more than the number of pieces
+export function countTokens(pieces: TokenPiece[]): number {
+  return pieces.reduce((sum, piece) => sum + piece.tokenIds.length, 0);
+}
+
+// Rough count (1 token ≈ 4 characters) for use until an encoding has loaded
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}